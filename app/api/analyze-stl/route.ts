@@ -0,0 +1,195 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { buildEdgeAdjacency, edgeCount } from "@/lib/adjacency"
+import { type AnalysisOptions, analysisOptionsSchema, analyzeMesh } from "@/lib/analysis"
+import { readUpload } from "@/lib/archive"
+import { diagnoseMesh, findMeshProblems } from "@/lib/diagnostics"
+import { triangleCount, vertexCount } from "@/lib/mesh"
+import type { LoadedModel } from "@/lib/model"
+import { parseRequestOptions } from "@/lib/render-options"
+import { describeShells, findShells } from "@/lib/shells"
+import { weldVertices } from "@/lib/weld"
+
+// One model's response body, or why it could not be analyzed
+type ModelResult =
+  | { success: false; status: number; body: Record<string, unknown> }
+  | { success: true; body: Record<string, unknown> }
+
+function analyzeModel(name: string, model: LoadedModel, options: AnalysisOptions): ModelResult {
+  const { format, mesh, bounds, colorConvention, warnings } = model
+
+  // Strict requests refuse damaged files rather than working with what could be read
+  if (options.strict && warnings.length > 0) {
+    return {
+      success: false,
+      status: 422,
+      body: { error: "Model file failed validation", code: warnings[0].code, warnings: warnings },
+    }
+  }
+
+  const triangles = triangleCount(mesh)
+
+  // Point clouds have no triangles but still render and measure
+  if (triangles === 0 && vertexCount(mesh) === 0) {
+    return { success: false, status: 400, body: { error: "No triangles or points found in model file" } }
+  }
+
+  const welded = weldVertices(mesh)
+  const adjacency = buildEdgeAdjacency(welded)
+
+  return {
+    success: true,
+    body: {
+      success: true,
+      filename: name,
+      format: format,
+      colorConvention: colorConvention,
+      warnings: warnings,
+      triangles: triangles,
+      vertices: vertexCount(welded),
+      edges: edgeCount(adjacency),
+      analysis: analyzeMesh(mesh, bounds),
+      diagnostics: diagnoseMesh(welded, adjacency, findMeshProblems(welded, adjacency)),
+      shells: describeShells(welded, findShells(welded)),
+    },
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Filename",
+      "Access-Control-Max-Age": "86400",
+    },
+  })
+}
+
+// Measurements in the file's own coordinates and units; no rendering
+export async function POST(request: NextRequest) {
+  try {
+    console.log("=== STL ANALYSIS ===")
+
+    // A raw upload sends the model itself as the body, with options in the query
+    // string and its name in X-Filename. Either way the model is unpacked as it
+    // arrives; a ZIP archive may hold several models.
+    const { filename, formData, expanded } = await readUpload(request)
+
+    if (!expanded) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json({ error: "No model file provided" }, { status: 400, headers: corsHeaders })
+    }
+
+    const parsedOptions = parseRequestOptions(analysisOptionsSchema, request.nextUrl.searchParams, formData)
+
+    if (!parsedOptions.success) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json(
+        { error: "Invalid analysis options", fieldErrors: parsedOptions.fieldErrors },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    const options = parsedOptions.options
+
+    if (!expanded.success) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json({ error: expanded.error }, { status: expanded.status, headers: corsHeaders })
+    }
+
+    const { archive, entries, skipped } = expanded.upload
+
+    if (archive !== "zip") {
+      const result = analyzeModel(entries[0].name, entries[0].load(), options)
+
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+
+      return NextResponse.json(result.body, { status: result.success ? 200 : result.status, headers: corsHeaders })
+    }
+
+    // Every model in the archive is answered on its own; one that fails is reported in
+    // its place without failing the rest
+    const results = entries.map((entry) => {
+      try {
+        const result = analyzeModel(entry.name, entry.load(), options)
+        return result.success ? result.body : { success: false, filename: entry.name, ...result.body }
+      } catch (error) {
+        console.error(`Error in ${entry.name}:`, error)
+        return {
+          success: false,
+          filename: entry.name,
+          error: "Failed to analyze model file",
+          details: error instanceof Error ? error.message : "Unknown error",
+        }
+      }
+    })
+
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        filename: filename,
+        archive: archive,
+        count: results.length,
+        entries: results,
+        skipped: skipped,
+      },
+      { headers: corsHeaders },
+    )
+  } catch (error) {
+    console.error("Error:", error)
+
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to analyze model file",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500, headers: corsHeaders },
+    )
+  }
+}
+
+export async function GET() {
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  }
+
+  return NextResponse.json(
+    {
+      message: "STL Analysis API",
+      status: "operational",
+    },
+    { headers: corsHeaders },
+  )
+}
@@ -0,0 +1,190 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { readUpload } from "@/lib/archive"
+import { triangleCount } from "@/lib/mesh"
+import { parseRequestOptions } from "@/lib/render-options"
+import { repairMesh, repairOptionsSchema } from "@/lib/repair"
+import { writeBinarySTL } from "@/lib/stl"
+import { weldVertices } from "@/lib/weld"
+import { attachmentDisposition, createZipStream } from "@/lib/zip"
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Filename",
+      "Access-Control-Max-Age": "86400",
+    },
+  })
+}
+
+// Weld, repair and re-export an STL in its own coordinates
+export async function POST(request: NextRequest) {
+  try {
+    console.log("=== STL REPAIR ===")
+
+    // A raw upload sends the model itself as the body, with options in the query
+    // string and its name in X-Filename
+    const { formData, expanded } = await readUpload(request)
+
+    if (!expanded) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json({ error: "No model file provided" }, { status: 400, headers: corsHeaders })
+    }
+
+    const parsedOptions = parseRequestOptions(repairOptionsSchema, request.nextUrl.searchParams, formData)
+
+    if (!parsedOptions.success) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json(
+        { error: "Invalid repair options", fieldErrors: parsedOptions.fieldErrors },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    const options = parsedOptions.options
+
+    // A repair works on exactly one model
+    if (!expanded.success) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json({ error: expanded.error }, { status: expanded.status, headers: corsHeaders })
+    }
+
+    const { entries } = expanded.upload
+
+    if (entries.length > 1) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json(
+        { error: `Archive holds ${entries.length} model files; upload one model to repair` },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    const name = entries[0].name
+    const { format, mesh: parsed, warnings } = entries[0].load()
+
+    // Strict requests refuse damaged files rather than working with what could be read
+    if (options.strict && warnings.length > 0) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json(
+        { error: "Model file failed validation", code: warnings[0].code, warnings: warnings },
+        { status: 422, headers: corsHeaders },
+      )
+    }
+
+    if (triangleCount(parsed) === 0) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json({ error: "No triangles found in model file" }, { status: 400, headers: corsHeaders })
+    }
+
+    const { mesh, report } = repairMesh(weldVertices(parsed, options.weldEpsilon))
+    const stl = writeBinarySTL(mesh, `Repaired from ${name}`)
+    const filename = `${name.replace(/\.[^.]*$/, "") || "model"}-repaired.stl`
+
+    console.log(
+      `Repaired: ${report.removedDegenerateFacets + report.removedDuplicateFacets} facets removed, ` +
+        `${report.flippedFacets} flipped, ${report.filledHoles} holes filled`,
+    )
+
+    const zip = options.format === "zip" || (request.headers.get("accept") ?? "").includes("application/zip")
+
+    if (zip) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+
+      return new NextResponse(
+        createZipStream([
+          { name: filename, data: stl, compress: true },
+          { name: "repair-report.json", data: JSON.stringify(report, null, 2), compress: true },
+        ]),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/zip",
+            "Content-Disposition": attachmentDisposition(`${filename.replace(/\.[^.]*$/, "")}.zip`),
+          },
+        },
+      )
+    }
+
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        filename: filename,
+        format: format,
+        warnings: warnings,
+        stl: `data:model/stl;base64,${stl.toString("base64")}`,
+        triangles: triangleCount(mesh),
+        report: report,
+      },
+      { headers: corsHeaders },
+    )
+  } catch (error) {
+    console.error("Error:", error)
+
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to repair model file",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500, headers: corsHeaders },
+    )
+  }
+}
+
+export async function GET() {
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  }
+
+  return NextResponse.json(
+    {
+      message: "STL Repair API",
+      status: "operational",
+    },
+    { headers: corsHeaders },
+  )
+}
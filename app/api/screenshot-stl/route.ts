@@ -1,188 +1,394 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { buildEdgeAdjacency, edgeCount } from "@/lib/adjacency"
+import { analyzeMesh } from "@/lib/analysis"
+import { readUpload, type Upload, type UploadEntry } from "@/lib/archive"
+import { diagnoseMesh, findMeshProblems, problemHighlight } from "@/lib/diagnostics"
+import { encodeImage, IMAGE_EXTENSIONS, toDataURL } from "@/lib/image"
+import { computeBounds, triangleCount, vertexCount } from "@/lib/mesh"
+import type { LoadedModel } from "@/lib/model"
+import { rasterize, shadingNormals } from "@/lib/rasterizer"
+import { parseRenderOptions, type RenderOptions } from "@/lib/render-options"
+import { describeShells, findShells, shellColors } from "@/lib/shells"
+import { packSpriteSheet, spriteColumns } from "@/lib/sprite-sheet"
+import { encodeAnimation, frameRenderer, renderFrames, turntableAngle, turntableViews } from "@/lib/turntable"
+import { defaultUpAxis, remapUpAxis } from "@/lib/up-axis"
+import { generateViews, resolveViews, viewAngles, viewCamera } from "@/lib/views"
+import { weldVertices } from "@/lib/weld"
+import { attachmentDisposition, createZipStream, uniqueFileNames, type ZipEntry } from "@/lib/zip"
+
+// What one model contributes to the response: its JSON body, or in zip mode its
+// manifest and the files to archive
+type ModelResult =
+  | { success: false; status: number; body: Record<string, unknown> }
+  | { success: true; body: Record<string, unknown>; files: Iterable<ZipEntry> | null }
+
+function processingError(error: unknown): Record<string, unknown> {
+  return { error: "Failed to process model file", details: error instanceof Error ? error.message : "Unknown error" }
+}
 
-// Simple STL parser
-function parseSTL(buffer: ArrayBuffer) {
-  console.log(`Parsing STL file, buffer size: ${buffer.byteLength} bytes`)
+// Zip entries are rendered as the archive streams, after the response headers have
+// gone out, so a failure can no longer change the status. It ends the model's files
+// with an error.json in place of the rest instead; the error body is returned, or
+// null once every file has been written.
+function* modelEntries(
+  name: string,
+  files: Iterable<ZipEntry>,
+  folder = "",
+): Generator<ZipEntry, Record<string, unknown> | null> {
+  try {
+    for (const file of files) {
+      yield { ...file, name: `${folder}${file.name}` }
+    }
+    return null
+  } catch (error) {
+    console.error(`Error in ${name}:`, error)
+    const body = processingError(error)
+    yield { name: `${folder}error.json`, data: JSON.stringify(body, null, 2), compress: true }
+    return body
+  }
+}
 
-  const view = new DataView(buffer)
-  let offset = 80 // Skip header
+function renderModel(name: string, model: LoadedModel, options: RenderOptions, zip: boolean): ModelResult {
+  const { width, height } = options
+  const { format, mesh: parsed, bounds: parsedBounds, colorConvention, warnings } = model
+  const upAxis = options.upAxis ?? defaultUpAxis(format)
+
+  // Strict requests refuse damaged files rather than working with what could be read
+  if (options.strict && warnings.length > 0) {
+    return {
+      success: false,
+      status: 422,
+      body: { error: "Model file failed validation", code: warnings[0].code, warnings: warnings },
+    }
+  }
 
-  const triangleCount = view.getUint32(offset, true)
-  offset += 4
+  const triangles = triangleCount(parsed)
 
-  console.log(`STL has ${triangleCount} triangles`)
+  // Point clouds have no triangles but still render and measure
+  if (triangles === 0 && vertexCount(parsed) === 0) {
+    return { success: false, status: 400, body: { error: "No triangles or points found in model file" } }
+  }
 
-  const triangles: number[][] = []
+  // Measure in the file's own coordinates, before any remapping
+  const analysis = analyzeMesh(parsed, parsedBounds)
+
+  // Loaders emit facets that repeat their shared vertices; merge them to recover the topology
+  const mesh = weldVertices(parsed, options.weldEpsilon)
+  const adjacency = buildEdgeAdjacency(mesh)
+  const problems = findMeshProblems(mesh, adjacency)
+  const diagnostics = diagnoseMesh(mesh, adjacency, problems)
+  const shells = findShells(mesh)
+  const shellInfo = describeShells(mesh, shells)
+
+  if (options.colorShells) {
+    mesh.colors = shellColors(shells)
+    mesh.faceColors = undefined
+    mesh.coloredFaces = undefined
+  }
 
-  for (let i = 0; i < triangleCount && offset + 50 <= buffer.byteLength; i++) {
-    offset += 12 // Skip normal
+  // Bring the model into the renderer's Y-up convention
+  remapUpAxis(mesh, upAxis)
+
+  const rasterOptions = {
+    width,
+    height,
+    background: options.background,
+    modelColor: options.modelColor,
+    edgeColor: options.edgeColor,
+    shading: options.shading,
+    creaseAngle: options.creaseAngle,
+    lights: options.lights,
+    // Shared by every view rather than worked out again for each one
+    normals: shadingNormals(mesh, options.shading, options.creaseAngle),
+    padding: options.padding,
+    highlight: options.highlightProblems ? problemHighlight(mesh, adjacency, problems) : null,
+  }
 
-    const triangle = []
-    for (let j = 0; j < 9; j++) {
-      triangle.push(view.getFloat32(offset, true))
-      offset += 4
+  const turntable = options.turntable
+  const resolved = options.views && !turntable ? resolveViews(options.views, upAxis) : null
+  if (resolved && !resolved.success) {
+    return {
+      success: false,
+      status: 400,
+      body: { error: "Invalid render options", fieldErrors: { views: [resolved.error] } },
+    }
+  }
+  const views = turntable ? turntableViews(turntable, upAxis) : resolved ? resolved.views : generateViews()
+  const viewNames = views.map((view) => view.name)
+  const viewDescriptions = views.map((view) => view.description)
+
+  const extension = IMAGE_EXTENSIONS[options.imageFormat]
+
+  if (options.spriteSheet) {
+    const bounds = computeBounds(mesh)
+    const frames = renderFrames(mesh, views, rasterOptions)
+    const info = views.map((view, index) => ({
+      name: view.name,
+      description: view.description,
+      ...viewAngles(view, bounds),
+      ...(turntable ? { angle: turntableAngle(index, views.length) } : {}),
+    }))
+
+    const columns = spriteColumns(frames.length, options.spriteSheet.columns)
+    const sheet = packSpriteSheet(frames, info, width, height, columns, options.background)
+    const image = encodeImage(
+      options.imageFormat,
+      sheet.manifest.width,
+      sheet.manifest.height,
+      sheet.pixels,
+      options.quality,
+    )
+
+    if (zip) {
+      const sheetName = `sprite-sheet.${extension}`
+      const manifest = {
+        spriteSheet: sheetName,
+        manifest: sheet.manifest,
+        viewNames: viewNames,
+        viewDescriptions: viewDescriptions,
+        count: frames.length,
+        filename: name,
+        format: format,
+        colorConvention: colorConvention,
+        warnings: warnings,
+        triangles: triangles,
+        vertices: vertexCount(mesh),
+        edges: edgeCount(adjacency),
+        analysis: analysis,
+        diagnostics: diagnostics,
+        shells: shellInfo,
+        upAxis: upAxis,
+        width: width,
+        height: height,
+        imageFormat: options.imageFormat,
+      }
+
+      return {
+        success: true,
+        body: manifest,
+        files: [
+          { name: "manifest.json", data: JSON.stringify(manifest, null, 2), compress: true },
+          { name: sheetName, data: image.data },
+        ],
+      }
     }
 
-    offset += 2 // Skip attribute
-    triangles.push(triangle)
+    return {
+      success: true,
+      body: {
+        success: true,
+        spriteSheet: toDataURL(image),
+        manifest: sheet.manifest,
+        viewNames: viewNames,
+        viewDescriptions: viewDescriptions,
+        count: frames.length,
+        filename: name,
+        format: format,
+        colorConvention: colorConvention,
+        warnings: warnings,
+        triangles: triangles,
+        vertices: vertexCount(mesh),
+        edges: edgeCount(adjacency),
+        analysis: analysis,
+        diagnostics: diagnostics,
+        shells: shellInfo,
+        upAxis: upAxis,
+        width: width,
+        height: height,
+        imageFormat: options.imageFormat,
+      },
+      files: null,
+    }
   }
 
-  console.log(`Parsed ${triangles.length} triangles`)
-  return triangles
-}
+  if (zip) {
+    // One file per view (or per turntable frame). Each image is rendered and encoded
+    // only when the archive stream asks for the next entry.
+    const files = uniqueFileNames(viewNames, extension)
+    const bounds = computeBounds(mesh)
+    const render = turntable
+      ? frameRenderer(mesh, views, rasterOptions)
+      : (index: number) => rasterize(mesh, viewCamera(views[index], bounds), rasterOptions)
+
+    const manifest = {
+      files: files,
+      viewNames: viewNames,
+      viewDescriptions: viewDescriptions,
+      count: views.length,
+      filename: name,
+      format: format,
+      colorConvention: colorConvention,
+      warnings: warnings,
+      triangles: triangles,
+      vertices: vertexCount(mesh),
+      edges: edgeCount(adjacency),
+      analysis: analysis,
+      diagnostics: diagnostics,
+      shells: shellInfo,
+      upAxis: upAxis,
+      width: width,
+      height: height,
+      imageFormat: options.imageFormat,
+      ...(turntable ? { elevation: turntable.elevation } : {}),
+    }
 
-// Create a simple SVG and convert to data URL
-function createSVGImage(width: number, height: number, triangles: number[][], viewName: string): string {
-  console.log(`Creating SVG for view: ${viewName}`)
-
-  // Find bounds
-  let minX = Number.POSITIVE_INFINITY,
-    maxX = Number.NEGATIVE_INFINITY
-  let minY = Number.POSITIVE_INFINITY,
-    maxY = Number.NEGATIVE_INFINITY
-  let minZ = Number.POSITIVE_INFINITY,
-    maxZ = Number.NEGATIVE_INFINITY
-
-  for (const triangle of triangles) {
-    for (let i = 0; i < 9; i += 3) {
-      minX = Math.min(minX, triangle[i])
-      maxX = Math.max(maxX, triangle[i])
-      minY = Math.min(minY, triangle[i + 1])
-      maxY = Math.max(maxY, triangle[i + 1])
-      minZ = Math.min(minZ, triangle[i + 2])
-      maxZ = Math.max(maxZ, triangle[i + 2])
+    function* entries(): Generator<ZipEntry> {
+      yield { name: "manifest.json", data: JSON.stringify(manifest, null, 2), compress: true }
+      for (let index = 0; index < views.length; index++) {
+        const image = encodeImage(options.imageFormat, width, height, render(index), options.quality)
+        yield { name: files[index], data: image.data }
+      }
     }
+
+    return { success: true, body: manifest, files: entries() }
   }
 
-  const centerX = (minX + maxX) / 2
-  const centerY = (minY + maxY) / 2
-  const centerZ = (minZ + maxZ) / 2
-  const maxSize = Math.max(maxX - minX, maxY - minY, maxZ - minZ)
-
-  console.log(`Model bounds: X(${minX.toFixed(2)} to ${maxX.toFixed(2)}), Y(${minY.toFixed(2)} to ${maxY.toFixed(2)})`)
-  console.log(`Scale: ${maxSize.toFixed(2)}`)
-
-  // Scale to fit 80% of image
-  const scale = maxSize > 0 ? (Math.min(width, height) * 0.8) / maxSize : 1
-
-  // Create SVG paths for each triangle
-  let svgPaths = ""
-  let trianglesDrawn = 0
-
-  // Simple camera positions based on view name
-  let cameraX = 0,
-    cameraY = 0,
-    cameraZ = 1 // Default: front view
-
-  if (viewName.includes("back")) {
-    cameraZ = -1
-  } else if (viewName.includes("left")) {
-    cameraX = -1
-    cameraZ = 0
-  } else if (viewName.includes("right")) {
-    cameraX = 1
-    cameraZ = 0
-  } else if (viewName.includes("top")) {
-    cameraY = 1
-    cameraZ = 0
-  } else if (viewName.includes("bottom")) {
-    cameraY = -1
-    cameraZ = 0
-  } else if (viewName.includes("iso")) {
-    // Isometric view
-    cameraX = 0.7
-    cameraY = 0.7
-    cameraZ = 0.7
-
-    if (viewName.includes("2")) {
-      cameraX = -0.7
-    } else if (viewName.includes("3")) {
-      cameraZ = -0.7
-    } else if (viewName.includes("4")) {
-      cameraX = -0.7
-      cameraZ = -0.7
+  if (turntable) {
+    const frames = renderFrames(mesh, views, rasterOptions)
+    const animation = encodeAnimation(turntable.format, width, height, frames, turntable)
+
+    return {
+      success: true,
+      body: {
+        success: true,
+        animation: toDataURL(animation),
+        animationFormat: turntable.format,
+        frameCount: frames.length,
+        delay: turntable.delay,
+        loop: turntable.loop,
+        elevation: turntable.elevation,
+        filename: name,
+        format: format,
+        colorConvention: colorConvention,
+        warnings: warnings,
+        triangles: triangles,
+        vertices: vertexCount(mesh),
+        edges: edgeCount(adjacency),
+        analysis: analysis,
+        diagnostics: diagnostics,
+        shells: shellInfo,
+        upAxis: upAxis,
+        width: width,
+        height: height,
+      },
+      files: null,
     }
   }
 
-  for (const triangle of triangles) {
-    // Project 3D points to 2D based on camera position
-    const points = []
-
-    for (let i = 0; i < 9; i += 3) {
-      // Center the model
-      const x = triangle[i] - centerX
-      const y = triangle[i + 1] - centerY
-      const z = triangle[i + 2] - centerZ
-
-      // Simple orthographic projection
-      let screenX, screenY
-
-      if (Math.abs(cameraX) > Math.abs(cameraY) && Math.abs(cameraX) > Math.abs(cameraZ)) {
-        // Side view (X dominant)
-        screenX = cameraX > 0 ? z : -z
-        screenY = y
-      } else if (Math.abs(cameraY) > Math.abs(cameraX) && Math.abs(cameraY) > Math.abs(cameraZ)) {
-        // Top/bottom view (Y dominant)
-        screenX = x
-        screenY = cameraY > 0 ? z : -z
-      } else {
-        // Front/back view (Z dominant)
-        screenX = x
-        screenY = y
-      }
+  // Generate screenshots for the requested views, in the order they were asked for
+  const bounds = computeBounds(mesh)
+  const screenshots: string[] = []
+
+  for (const view of views) {
+    const pixels = rasterize(mesh, viewCamera(view, bounds), rasterOptions)
+    screenshots.push(toDataURL(encodeImage(options.imageFormat, width, height, pixels, options.quality)))
+  }
+
+  return {
+    success: true,
+    body: {
+      success: true,
+      screenshots: screenshots,
+      viewNames: viewNames,
+      viewDescriptions: viewDescriptions,
+      count: screenshots.length,
+      filename: name,
+      format: format,
+      colorConvention: colorConvention,
+      warnings: warnings,
+      triangles: triangles,
+      vertices: vertexCount(mesh),
+      edges: edgeCount(adjacency),
+      analysis: analysis,
+      diagnostics: diagnostics,
+      shells: shellInfo,
+      upAxis: upAxis,
+      width: width,
+      height: height,
+      imageFormat: options.imageFormat,
+    },
+    files: null,
+  }
+}
 
-      // For isometric views, use a simple combination
-      if (Math.abs(cameraX) > 0.1 && Math.abs(cameraY) > 0.1 && Math.abs(cameraZ) > 0.1) {
-        screenX = x * cameraX + z * cameraZ
-        screenY = y * cameraY + (x * cameraX - z * cameraZ) * 0.3
+// Answer a ZIP upload model by model. One that fails is reported in its place
+// without failing the rest.
+function archiveResponse(filename: string, upload: Upload, options: RenderOptions, zip: boolean): NextResponse {
+  const { archive, entries, skipped } = upload
+
+  const renderEntry = (entry: UploadEntry): ModelResult => {
+    try {
+      return renderModel(entry.name, entry.load(), options, zip)
+    } catch (error) {
+      console.error(`Error in ${entry.name}:`, error)
+      return { success: false, status: 500, body: processingError(error) }
+    }
+  }
+
+  if (zip) {
+    // A folder per model, each laid out like a single-model archive, and a manifest
+    // of the whole upload written once every model has been rendered
+    const folders = uniqueFileNames(entries.map((entry) => entry.name))
+
+    function* archiveEntries(): Generator<ZipEntry> {
+      const summary = []
+      for (let index = 0; index < entries.length; index++) {
+        const result = renderEntry(entries[index])
+        let error = result.success ? null : result.body
+        if (result.success) {
+          error = yield* modelEntries(entries[index].name, result.files ?? [], `${folders[index]}/`)
+        } else {
+          yield { name: `${folders[index]}/error.json`, data: JSON.stringify(result.body, null, 2), compress: true }
+        }
+        summary.push({
+          filename: entries[index].name,
+          folder: folders[index],
+          success: error === null,
+          ...(error ? { error: error.error } : {}),
+        })
       }
 
-      // Convert to screen coordinates
-      const pixelX = width / 2 + screenX * scale
-      const pixelY = height / 2 - screenY * scale
+      const manifest = { filename: filename, archive: archive, entries: summary, skipped: skipped }
+      yield { name: "manifest.json", data: JSON.stringify(manifest, null, 2), compress: true }
+    }
 
-      points.push([pixelX, pixelY])
+    const corsHeaders = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
     }
 
-    // Create SVG path for this triangle
-    svgPaths += `<polygon points="${points.map((p) => `${p[0]},${p[1]}`).join(" ")}" fill="#666" stroke="#999" stroke-width="0.5" />\n`
-    trianglesDrawn++
+    return new NextResponse(createZipStream(archiveEntries()), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/zip",
+        "Content-Disposition": attachmentDisposition(`${filename.replace(/\.[^.]*$/, "") || "screenshots"}.zip`),
+      },
+    })
   }
 
-  console.log(`Drew ${trianglesDrawn} triangles`)
-
-  // Create complete SVG
-  const svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-    <rect width="100%" height="100%" fill="white"/>
-    <rect x="0" y="0" width="20" height="20" fill="red"/>
-    ${svgPaths}
-  </svg>`
+  const results = entries.map((entry) => {
+    const result = renderEntry(entry)
+    return result.success ? result.body : { success: false, filename: entry.name, ...result.body }
+  })
 
-  // Convert to base64
-  const base64 = Buffer.from(svg).toString("base64")
-  return `data:image/svg+xml;base64,${base64}`
-}
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  }
 
-// Generate 16 different views
-function generateViews() {
-  return [
-    { name: "front", description: "Front View" },
-    { name: "back", description: "Back View" },
-    { name: "left", description: "Left Side View" },
-    { name: "right", description: "Right Side View" },
-    { name: "top", description: "Top View" },
-    { name: "bottom", description: "Bottom View" },
-    { name: "iso_1", description: "Isometric View 1" },
-    { name: "iso_2", description: "Isometric View 2" },
-    { name: "iso_3", description: "Isometric View 3" },
-    { name: "iso_4", description: "Isometric View 4" },
-    { name: "corner_1", description: "Bottom Corner 1" },
-    { name: "corner_2", description: "Bottom Corner 2" },
-    { name: "corner_3", description: "Bottom Corner 3" },
-    { name: "corner_4", description: "Bottom Corner 4" },
-    { name: "angle_1", description: "Angled View 1" },
-    { name: "angle_2", description: "Angled View 2" },
-  ]
+  return NextResponse.json(
+    {
+      success: true,
+      filename: filename,
+      archive: archive,
+      count: results.length,
+      entries: results,
+      skipped: skipped,
+    },
+    { headers: corsHeaders },
+  )
 }
 
 export async function OPTIONS(request: NextRequest) {
@@ -191,7 +397,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Filename",
       "Access-Control-Max-Age": "86400",
     },
   })
@@ -199,49 +405,58 @@ export async function OPTIONS(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    console.log("=== SVG-BASED STL RENDERER ===")
+    console.log("=== SOFTWARE STL RENDERER ===")
 
-    const formData = await request.formData()
-    const file = formData.get("stl") as File
+    // A raw upload sends the model itself as the body, with options in the query
+    // string and its name in X-Filename. Either way the model is unpacked as it
+    // arrives; a ZIP archive may hold several models.
+    const { filename, formData, expanded } = await readUpload(request)
 
-    if (!file) {
+    if (!expanded) {
       const corsHeaders = {
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
         "Access-Control-Allow-Headers": "Content-Type, Authorization",
       }
-      return NextResponse.json({ error: "No STL file provided" }, { status: 400, headers: corsHeaders })
+      return NextResponse.json({ error: "No model file provided" }, { status: 400, headers: corsHeaders })
     }
 
-    console.log(`File: ${file.name}, size: ${file.size} bytes`)
+    const parsedOptions = parseRenderOptions(request.nextUrl.searchParams, formData)
 
-    // Read file
-    const arrayBuffer = await file.arrayBuffer()
+    if (!parsedOptions.success) {
+      const corsHeaders = {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      }
+      return NextResponse.json(
+        { error: "Invalid render options", fieldErrors: parsedOptions.fieldErrors },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    const options = parsedOptions.options
 
-    // Parse triangles
-    const triangles = parseSTL(arrayBuffer)
+    const zip = options.format === "zip" || (request.headers.get("accept") ?? "").includes("application/zip")
 
-    if (triangles.length === 0) {
+    if (!expanded.success) {
       const corsHeaders = {
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
         "Access-Control-Allow-Headers": "Content-Type, Authorization",
       }
-      return NextResponse.json({ error: "No triangles found in STL file" }, { status: 400, headers: corsHeaders })
+      return NextResponse.json({ error: expanded.error }, { status: expanded.status, headers: corsHeaders })
     }
 
-    // Generate screenshots for all views
-    const views = generateViews()
-    const screenshots: string[] = []
-    const viewNames: string[] = []
-    const viewDescriptions: string[] = []
+    if (expanded.upload.archive === "zip") {
+      return archiveResponse(filename, expanded.upload, options, zip)
+    }
 
-    // For now, just generate one view for testing
-    const testView = views[0]
-    const screenshot = createSVGImage(512, 512, triangles, testView.name)
-    screenshots.push(screenshot)
-    viewNames.push(testView.name)
-    viewDescriptions.push(testView.description)
+    const entry = expanded.upload.entries[0]
+    const name = entry.name
+    const model = entry.load()
+
+    const result = renderModel(name, model, options, zip)
 
     const corsHeaders = {
       "Access-Control-Allow-Origin": "*",
@@ -249,18 +464,21 @@ export async function POST(request: NextRequest) {
       "Access-Control-Allow-Headers": "Content-Type, Authorization",
     }
 
-    return NextResponse.json(
-      {
-        success: true,
-        screenshots: screenshots,
-        viewNames: viewNames,
-        viewDescriptions: viewDescriptions,
-        count: screenshots.length,
-        filename: file.name,
-        triangles: triangles.length,
-      },
-      { headers: corsHeaders },
-    )
+    if (!result.success) {
+      return NextResponse.json(result.body, { status: result.status, headers: corsHeaders })
+    }
+
+    if (result.files) {
+      return new NextResponse(createZipStream(modelEntries(name, result.files)), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/zip",
+          "Content-Disposition": attachmentDisposition(`${name.replace(/\.[^.]*$/, "") || "screenshots"}.zip`),
+        },
+      })
+    }
+
+    return NextResponse.json(result.body, { headers: corsHeaders })
   } catch (error) {
     console.error("Error:", error)
 
@@ -273,7 +491,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         success: false,
-        error: "Failed to process STL file",
+        error: "Failed to process model file",
         details: error instanceof Error ? error.message : "Unknown error",
       },
       { status: 500, headers: corsHeaders },
@@ -290,7 +508,7 @@ export async function GET() {
 
   return NextResponse.json(
     {
-      message: "SVG-based STL Screenshot API",
+      message: "Software-rendered STL Screenshot API",
       status: "operational",
     },
     { headers: corsHeaders },
@@ -5,7 +5,7 @@ export async function GET() {
     message: "STL Screenshot API is running",
     endpoint: "/api/screenshot-stl",
     method: "POST",
-    expectedInput: 'multipart/form-data with "stl" file field',
+    expectedInput: 'multipart/form-data with "stl" file field and optional "options" JSON field',
     output: "JSON with array of 16 base64 PNG images",
   })
 }
@@ -5,10 +5,74 @@ import type React from "react"
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { SHADING_MODES } from "@/lib/rasterizer"
+import { ANIMATION_FORMATS, IMAGE_FORMATS } from "@/lib/render-options"
+import { UP_AXES } from "@/lib/up-axis"
+import { generateViews } from "@/lib/views"
 import { Download, AlertCircle, CheckCircle } from "lucide-react"
 
+const ALL_VIEWS = generateViews()
+
+interface PageRenderOptions {
+  width: number
+  height: number
+  views: string[]
+  background: string
+  modelColor: string
+  edgesEnabled: boolean
+  edgeColor: string
+  padding: number
+  shading: string
+  creaseAngle: number
+  imageFormat: string
+  quality: number
+  upAxis: string
+  highlightProblems: boolean
+  colorShells: boolean
+  strict: boolean
+}
+
+const DEFAULT_PAGE_OPTIONS: PageRenderOptions = {
+  width: 512,
+  height: 512,
+  views: ALL_VIEWS.map((view) => view.name),
+  background: "#ffffff",
+  modelColor: "#969696",
+  edgesEnabled: false,
+  edgeColor: "#333333",
+  padding: 0.1,
+  shading: "flat",
+  creaseAngle: 30,
+  imageFormat: "png",
+  quality: 90,
+  // "auto" leaves the choice to the server, which goes by the model's format
+  upAxis: "auto",
+  highlightProblems: false,
+  colorShells: false,
+  strict: false,
+}
+
+interface PageTurntableOptions {
+  frames: number
+  delay: number
+  loop: number
+  elevation: number
+  format: string
+}
+
+const DEFAULT_TURNTABLE_OPTIONS: PageTurntableOptions = {
+  frames: 36,
+  delay: 100,
+  loop: 0,
+  elevation: 20,
+  format: "gif",
+}
+
 export default function APITestPage() {
   const [file, setFile] = useState<File | null>(null)
   const [loading, setLoading] = useState(false)
@@ -16,6 +80,33 @@ export default function APITestPage() {
   const [error, setError] = useState<string>("")
   const [response, setResponse] = useState<any>(null)
   const [apiHealth, setApiHealth] = useState<string>("")
+  const [renderOptions, setRenderOptions] = useState<PageRenderOptions>(DEFAULT_PAGE_OPTIONS)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [customViews, setCustomViews] = useState<string>("")
+  const [turntableEnabled, setTurntableEnabled] = useState(false)
+  const [turntable, setTurntable] = useState<PageTurntableOptions>(DEFAULT_TURNTABLE_OPTIONS)
+  const [animation, setAnimation] = useState<string>("")
+  const [spriteSheetEnabled, setSpriteSheetEnabled] = useState(false)
+  const [spriteColumns, setSpriteColumns] = useState<string>("")
+  const [spriteSheet, setSpriteSheet] = useState<string>("")
+
+  const updateTurntable = <K extends keyof PageTurntableOptions>(key: K, value: PageTurntableOptions[K]) => {
+    setTurntable((current) => ({ ...current, [key]: value }))
+  }
+
+  const updateOption = <K extends keyof PageRenderOptions>(key: K, value: PageRenderOptions[K]) => {
+    setRenderOptions((current) => ({ ...current, [key]: value }))
+  }
+
+  const toggleView = (name: string, checked: boolean) => {
+    setRenderOptions((current) => ({
+      ...current,
+      // Keep the views in preset order
+      views: ALL_VIEWS.map((view) => view.name).filter((viewName) =>
+        viewName === name ? checked : current.views.includes(viewName),
+      ),
+    }))
+  }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
@@ -48,18 +139,48 @@ export default function APITestPage() {
 
   const testAPI = async () => {
     if (!file) {
-      setError("Please select an STL file")
+      setError("Please select a model file")
       return
     }
 
+    let parsedCustomViews: unknown[] = []
+    if (customViews.trim() !== "") {
+      try {
+        const parsed = JSON.parse(customViews)
+        parsedCustomViews = Array.isArray(parsed) ? parsed : [parsed]
+      } catch {
+        setError("Custom views must be valid JSON")
+        return
+      }
+    }
+
     setLoading(true)
     setError("")
     setScreenshots([])
+    setAnimation("")
+    setSpriteSheet("")
     setResponse(null)
+    setFieldErrors({})
 
     try {
+      const { edgesEnabled, ...options } = renderOptions
       const formData = new FormData()
-      formData.append("stl", file)
+      formData.append("model", file)
+      formData.append(
+        "options",
+        JSON.stringify({
+          ...options,
+          views: [...options.views, ...parsedCustomViews],
+          edgeColor: edgesEnabled ? options.edgeColor : null,
+          upAxis: options.upAxis === "auto" ? undefined : options.upAxis,
+          turntable: turntableEnabled ? turntable : undefined,
+          spriteSheet: spriteSheetEnabled
+            ? spriteColumns.trim() !== ""
+              ? { columns: Number(spriteColumns) }
+              : true
+            : undefined,
+        }),
+      )
 
       console.log("Sending request to API...")
 
@@ -84,9 +205,18 @@ export default function APITestPage() {
       setResponse(result)
 
       if (result.success) {
-        setScreenshots(result.screenshots)
+        // Archives are answered per model; preview the first one that rendered
+        const model = result.entries ? (result.entries.find((entry: any) => entry.success) ?? {}) : result
+        if (model.spriteSheet) {
+          setSpriteSheet(model.spriteSheet)
+        } else if (model.animation) {
+          setAnimation(model.animation)
+        } else {
+          setScreenshots(model.screenshots ?? [])
+        }
       } else {
         setError(result.error || "Failed to process file")
+        setFieldErrors(result.fieldErrors || {})
       }
     } catch (err) {
       console.error("API test error:", err)
@@ -98,7 +228,8 @@ export default function APITestPage() {
 
   const downloadScreenshot = (dataUrl: string, index: number) => {
     const link = document.createElement("a")
-    link.download = `screenshot_${index + 1}.png`
+    const extension = dataUrl.startsWith("data:image/jpeg") ? "jpg" : "png"
+    link.download = `screenshot_${index + 1}.${extension}`
     link.href = dataUrl
     link.click()
   }
@@ -137,8 +268,13 @@ export default function APITestPage() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
-              <Label htmlFor="stl-file">Upload STL File</Label>
-              <Input id="stl-file" type="file" accept=".stl" onChange={handleFileChange} />
+              <Label htmlFor="model-file">Upload Model File (STL, OBJ, PLY, 3MF or glTF, or a .gz or .zip of them)</Label>
+              <Input
+                id="model-file"
+                type="file"
+                accept=".stl,.obj,.ply,.3mf,.glb,.gltf,.gz,.zip"
+                onChange={handleFileChange}
+              />
               {file && (
                 <div className="text-sm text-gray-600 mt-1">
                   Selected: {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
@@ -146,6 +282,294 @@ export default function APITestPage() {
               )}
             </div>
 
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="width">Width</Label>
+                <Input
+                  id="width"
+                  type="number"
+                  min={16}
+                  max={4096}
+                  value={renderOptions.width}
+                  onChange={(e) => updateOption("width", Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="height">Height</Label>
+                <Input
+                  id="height"
+                  type="number"
+                  min={16}
+                  max={4096}
+                  value={renderOptions.height}
+                  onChange={(e) => updateOption("height", Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="padding">Padding</Label>
+                <Input
+                  id="padding"
+                  type="number"
+                  min={0}
+                  max={0.45}
+                  step={0.05}
+                  value={renderOptions.padding}
+                  onChange={(e) => updateOption("padding", Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="quality">JPEG Quality</Label>
+                <Input
+                  id="quality"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={renderOptions.quality}
+                  disabled={renderOptions.imageFormat !== "jpeg"}
+                  onChange={(e) => updateOption("quality", Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="background">Background</Label>
+                <Input
+                  id="background"
+                  type="color"
+                  value={renderOptions.background}
+                  onChange={(e) => updateOption("background", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="model-color">Model Colour</Label>
+                <Input
+                  id="model-color"
+                  type="color"
+                  value={renderOptions.modelColor}
+                  onChange={(e) => updateOption("modelColor", e.target.value)}
+                />
+              </div>
+              <div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="edges-enabled"
+                    checked={renderOptions.edgesEnabled}
+                    onCheckedChange={(checked) => updateOption("edgesEnabled", checked === true)}
+                  />
+                  <Label htmlFor="edge-color">Edge Colour</Label>
+                </div>
+                <Input
+                  id="edge-color"
+                  type="color"
+                  value={renderOptions.edgeColor}
+                  disabled={!renderOptions.edgesEnabled}
+                  onChange={(e) => updateOption("edgeColor", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Up Axis</Label>
+                <Select value={renderOptions.upAxis} onValueChange={(value) => updateOption("upAxis", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto</SelectItem>
+                    {UP_AXES.map((axis) => (
+                      <SelectItem key={axis} value={axis}>
+                        {axis}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Shading</Label>
+                <Select value={renderOptions.shading} onValueChange={(value) => updateOption("shading", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHADING_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {mode}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="crease-angle">Crease Angle</Label>
+                <Input
+                  id="crease-angle"
+                  type="number"
+                  min={0}
+                  max={180}
+                  step={5}
+                  value={renderOptions.creaseAngle}
+                  disabled={renderOptions.shading !== "crease"}
+                  onChange={(e) => updateOption("creaseAngle", Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label>Image Format</Label>
+                <Select value={renderOptions.imageFormat} onValueChange={(value) => updateOption("imageFormat", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMAGE_FORMATS.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 self-end pb-2">
+                <Checkbox
+                  id="highlight-problems"
+                  checked={renderOptions.highlightProblems}
+                  onCheckedChange={(checked) => updateOption("highlightProblems", checked === true)}
+                />
+                <Label htmlFor="highlight-problems">Highlight Mesh Problems</Label>
+              </div>
+              <div className="flex items-center gap-2 self-end pb-2">
+                <Checkbox
+                  id="color-shells"
+                  checked={renderOptions.colorShells}
+                  onCheckedChange={(checked) => updateOption("colorShells", checked === true)}
+                />
+                <Label htmlFor="color-shells">Colour Each Part</Label>
+              </div>
+              <div className="flex items-center gap-2 self-end pb-2">
+                <Checkbox
+                  id="strict"
+                  checked={renderOptions.strict}
+                  onCheckedChange={(checked) => updateOption("strict", checked === true)}
+                />
+                <Label htmlFor="strict">Reject Damaged Files</Label>
+              </div>
+            </div>
+
+            <div>
+              <Label>Views</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-1">
+                {ALL_VIEWS.map((view) => (
+                  <div key={view.name} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`view-${view.name}`}
+                      checked={renderOptions.views.includes(view.name)}
+                      onCheckedChange={(checked) => toggleView(view.name, checked === true)}
+                    />
+                    <Label htmlFor={`view-${view.name}`}>{view.description}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="custom-views">Custom Views (JSON)</Label>
+              <Textarea
+                id="custom-views"
+                className="font-mono text-xs"
+                placeholder='[{"name": "signature", "azimuth": 35, "elevation": 20, "zoom": 1.1}, {"name": "close", "eye": [120, -80, 60], "projection": "perspective"}]'
+                value={customViews}
+                onChange={(e) => setCustomViews(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="turntable-enabled"
+                  checked={turntableEnabled}
+                  onCheckedChange={(checked) => setTurntableEnabled(checked === true)}
+                />
+                <Label htmlFor="turntable-enabled">Turntable Animation</Label>
+              </div>
+              {turntableEnabled && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <Label htmlFor="turntable-frames">Frames</Label>
+                    <Input
+                      id="turntable-frames"
+                      type="number"
+                      min={2}
+                      max={360}
+                      value={turntable.frames}
+                      onChange={(e) => updateTurntable("frames", Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="turntable-delay">Delay (ms)</Label>
+                    <Input
+                      id="turntable-delay"
+                      type="number"
+                      min={20}
+                      value={turntable.delay}
+                      onChange={(e) => updateTurntable("delay", Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="turntable-loop">Loop (0 = forever)</Label>
+                    <Input
+                      id="turntable-loop"
+                      type="number"
+                      min={0}
+                      value={turntable.loop}
+                      onChange={(e) => updateTurntable("loop", Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="turntable-elevation">Elevation</Label>
+                    <Input
+                      id="turntable-elevation"
+                      type="number"
+                      min={-90}
+                      max={90}
+                      value={turntable.elevation}
+                      onChange={(e) => updateTurntable("elevation", Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Format</Label>
+                    <Select value={turntable.format} onValueChange={(value) => updateTurntable("format", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ANIMATION_FORMATS.map((format) => (
+                          <SelectItem key={format} value={format}>
+                            {format}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="sprite-sheet-enabled"
+                  checked={spriteSheetEnabled}
+                  onCheckedChange={(checked) => setSpriteSheetEnabled(checked === true)}
+                />
+                <Label htmlFor="sprite-sheet-enabled">Sprite Sheet</Label>
+              </div>
+              {spriteSheetEnabled && (
+                <Input
+                  type="number"
+                  min={1}
+                  max={64}
+                  placeholder="Columns (auto)"
+                  className="w-40"
+                  value={spriteColumns}
+                  onChange={(e) => setSpriteColumns(e.target.value)}
+                />
+              )}
+            </div>
+
             <Button onClick={testAPI} disabled={!file || loading} className="w-full">
               {loading ? "Processing..." : "Test API"}
             </Button>
@@ -157,6 +581,16 @@ export default function APITestPage() {
               </div>
             )}
 
+            {Object.keys(fieldErrors).length > 0 && (
+              <ul className="text-sm text-red-600 bg-red-50 p-3 rounded list-disc list-inside">
+                {Object.entries(fieldErrors).map(([field, messages]) => (
+                  <li key={field}>
+                    <strong>{field}:</strong> {messages.join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {screenshots.length > 0 && (
               <div className="flex items-center gap-2 text-green-600 text-sm bg-green-50 p-3 rounded">
                 <CheckCircle className="w-4 h-4" />
@@ -166,6 +600,54 @@ export default function APITestPage() {
           </CardContent>
         </Card>
 
+        {spriteSheet && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Sprite Sheet</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-4">
+              <img src={spriteSheet} alt="Sprite sheet" className="max-w-full rounded border" />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  const link = document.createElement("a")
+                  link.download = spriteSheet.startsWith("data:image/jpeg") ? "sprite-sheet.jpg" : "sprite-sheet.png"
+                  link.href = spriteSheet
+                  link.click()
+                }}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {animation && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Turntable Animation</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-4">
+              <img src={animation} alt="Turntable animation" className="max-w-full rounded border" />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  const link = document.createElement("a")
+                  link.download = animation.startsWith("data:image/gif") ? "turntable.gif" : "turntable.png"
+                  link.href = animation
+                  link.click()
+                }}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {screenshots.length > 0 && (
           <Card>
             <CardHeader>
@@ -0,0 +1,96 @@
+import { cornerVertex, triangleCount, vertexCount, type Mesh } from "@/lib/mesh"
+
+// Marks a triangle side whose two corners were welded into one vertex
+export const NO_EDGE = 0xffffffff
+
+export interface EdgeAdjacency {
+  // Two vertex indices per edge, lower index first
+  edges: Uint32Array
+  // Edge along each triangle side, three per triangle: corners 0-1, 1-2 and 2-0
+  triangleEdges: Uint32Array
+  // Triangles using edge e are edgeTriangles[edgeOffsets[e]] up to edgeTriangles[edgeOffsets[e + 1]]
+  edgeOffsets: Uint32Array
+  edgeTriangles: Uint32Array
+}
+
+export function edgeCount(adjacency: EdgeAdjacency): number {
+  return adjacency.edges.length / 2
+}
+
+// Number of triangles sharing an edge: 1 on an open boundary, 2 on a manifold surface
+export function edgeValence(adjacency: EdgeAdjacency, edge: number): number {
+  return adjacency.edgeOffsets[edge + 1] - adjacency.edgeOffsets[edge]
+}
+
+// Find the unique edges of an indexed mesh (see weldVertices) and the triangles on
+// each side. Triangle sides are bucketed by their lower vertex, so matching sides
+// only have to be looked for among the few that share that vertex.
+export function buildEdgeAdjacency(mesh: Mesh): EdgeAdjacency {
+  const triangles = triangleCount(mesh)
+  const vertices = vertexCount(mesh)
+  const sides = triangles * 3
+
+  const low = new Uint32Array(sides)
+  const high = new Uint32Array(sides)
+  const sideOffsets = new Uint32Array(vertices + 1)
+  const triangleEdges = new Uint32Array(sides).fill(NO_EDGE)
+
+  for (let side = 0; side < sides; side++) {
+    const triangle = Math.floor(side / 3)
+    const from = cornerVertex(mesh, triangle, side % 3)
+    const to = cornerVertex(mesh, triangle, (side + 1) % 3)
+    low[side] = Math.min(from, to)
+    high[side] = Math.max(from, to)
+    if (from !== to) sideOffsets[low[side] + 1]++
+  }
+
+  for (let vertex = 0; vertex < vertices; vertex++) {
+    sideOffsets[vertex + 1] += sideOffsets[vertex]
+  }
+
+  const sidesByVertex = new Uint32Array(sideOffsets[vertices])
+  const fill = sideOffsets.slice(0, vertices)
+  for (let side = 0; side < sides; side++) {
+    if (low[side] !== high[side]) sidesByVertex[fill[low[side]]++] = side
+  }
+
+  // Number the edges vertex by vertex. `edgeOf` remembers the edge last created
+  // towards each far vertex; it only counts if it belongs to the current vertex.
+  const edgeOf = new Int32Array(vertices).fill(-1)
+  const edges = new Uint32Array(sidesByVertex.length * 2)
+  let count = 0
+
+  for (let vertex = 0; vertex < vertices; vertex++) {
+    const firstEdge = count
+    for (let i = sideOffsets[vertex]; i < sideOffsets[vertex + 1]; i++) {
+      const side = sidesByVertex[i]
+      const other = high[side]
+      let edge = edgeOf[other]
+      if (edge < firstEdge) {
+        edge = count++
+        edgeOf[other] = edge
+        edges[edge * 2] = vertex
+        edges[edge * 2 + 1] = other
+      }
+      triangleEdges[side] = edge
+    }
+  }
+
+  // Counting sort of triangle sides by edge
+  const edgeOffsets = new Uint32Array(count + 1)
+  for (const edge of triangleEdges) {
+    if (edge !== NO_EDGE) edgeOffsets[edge + 1]++
+  }
+  for (let edge = 0; edge < count; edge++) {
+    edgeOffsets[edge + 1] += edgeOffsets[edge]
+  }
+
+  const edgeTriangles = new Uint32Array(edgeOffsets[count])
+  const cursor = edgeOffsets.slice(0, count)
+  for (let side = 0; side < sides; side++) {
+    const edge = triangleEdges[side]
+    if (edge !== NO_EDGE) edgeTriangles[cursor[edge]++] = Math.floor(side / 3)
+  }
+
+  return { edges: edges.slice(0, count * 2), triangleEdges, edgeOffsets, edgeTriangles }
+}
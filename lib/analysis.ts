@@ -0,0 +1,83 @@
+import { z } from "zod"
+import { computeBounds, cornerVertex, triangleCount, type Bounds, type Mesh } from "@/lib/mesh"
+import { strictOptionSchema } from "@/lib/render-options"
+import type { Vec3 } from "@/lib/vector"
+
+export const analysisOptionsSchema = z
+  .object({
+    strict: strictOptionSchema,
+  })
+  .strict()
+
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>
+
+export interface MeshAnalysis {
+  // Sum of signed tetrahedra against the origin: positive for a closed mesh with
+  // outward-facing (counter-clockwise) facets, negative when the winding is inverted
+  volume: number
+  surfaceArea: number
+  bounds: Bounds
+  dimensions: Vec3
+  // Area-weighted centre of the surface
+  centroid: Vec3
+  // Centre of the enclosed solid at uniform density; null when there is no volume
+  centerOfMass: Vec3 | null
+}
+
+// Measure a mesh in its own coordinates and units. Volume and centre of mass are
+// only meaningful for closed surfaces. Bounds already found by the loader are reused.
+export function analyzeMesh(mesh: Mesh, bounds: Bounds = computeBounds(mesh)): MeshAnalysis {
+  const positions = mesh.positions
+  const count = triangleCount(mesh)
+
+  let volume = 0
+  let surfaceArea = 0
+  const areaMoment: Vec3 = [0, 0, 0]
+  const volumeMoment: Vec3 = [0, 0, 0]
+
+  for (let triangle = 0; triangle < count; triangle++) {
+    const a = cornerVertex(mesh, triangle, 0) * 3
+    const b = cornerVertex(mesh, triangle, 1) * 3
+    const c = cornerVertex(mesh, triangle, 2) * 3
+    const ax = positions[a],
+      ay = positions[a + 1],
+      az = positions[a + 2]
+    const bx = positions[b],
+      by = positions[b + 1],
+      bz = positions[b + 2]
+    const cx = positions[c],
+      cy = positions[c + 1],
+      cz = positions[c + 2]
+
+    // Twice the facet area from the cross product of two sides
+    const ux = bx - ax,
+      uy = by - ay,
+      uz = bz - az
+    const vx = cx - ax,
+      vy = cy - ay,
+      vz = cz - az
+    const area = Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2
+
+    // Signed volume of the tetrahedron (origin, a, b, c)
+    const tetrahedron = (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6
+
+    surfaceArea += area
+    volume += tetrahedron
+    areaMoment[0] += (area * (ax + bx + cx)) / 3
+    areaMoment[1] += (area * (ay + by + cy)) / 3
+    areaMoment[2] += (area * (az + bz + cz)) / 3
+    volumeMoment[0] += (tetrahedron * (ax + bx + cx)) / 4
+    volumeMoment[1] += (tetrahedron * (ay + by + cy)) / 4
+    volumeMoment[2] += (tetrahedron * (az + bz + cz)) / 4
+  }
+
+  const dimensions: Vec3 = [bounds.max[0] - bounds.min[0], bounds.max[1] - bounds.min[1], bounds.max[2] - bounds.min[2]]
+  const centroid: Vec3 =
+    surfaceArea > 0
+      ? [areaMoment[0] / surfaceArea, areaMoment[1] / surfaceArea, areaMoment[2] / surfaceArea]
+      : [(bounds.min[0] + bounds.max[0]) / 2, (bounds.min[1] + bounds.max[1]) / 2, (bounds.min[2] + bounds.max[2]) / 2]
+  const centerOfMass: Vec3 | null =
+    volume !== 0 ? [volumeMoment[0] / volume, volumeMoment[1] / volume, volumeMoment[2] / volume] : null
+
+  return { volume, surfaceArea, bounds, dimensions, centroid, centerOfMass }
+}
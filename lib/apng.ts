@@ -0,0 +1,49 @@
+import { compressScanlines, pngChunk, pngHeader } from "@/lib/png"
+
+export interface APNGOptions {
+  // Milliseconds per frame
+  delay: number
+  // 0 loops forever, otherwise the total number of times the animation plays
+  loop: number
+}
+
+// Encode RGBA frames of equal size as an animated PNG. The first frame doubles as
+// the default image, so viewers without APNG support still show a still.
+export function encodeAPNG(width: number, height: number, frames: Uint8Array[], options: APNGOptions): Buffer {
+  const parts: Buffer[] = [pngHeader(width, height)]
+
+  const animationControl = Buffer.alloc(8)
+  animationControl.writeUInt32BE(frames.length, 0)
+  animationControl.writeUInt32BE(options.loop, 4)
+  parts.push(pngChunk("acTL", animationControl))
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0
+
+  frames.forEach((pixels, index) => {
+    const frameControl = Buffer.alloc(26)
+    frameControl.writeUInt32BE(sequence++, 0)
+    frameControl.writeUInt32BE(width, 4)
+    frameControl.writeUInt32BE(height, 8)
+    frameControl.writeUInt32BE(0, 12) // x offset
+    frameControl.writeUInt32BE(0, 16) // y offset
+    frameControl.writeUInt16BE(Math.min(65535, Math.round(options.delay)), 20)
+    frameControl.writeUInt16BE(1000, 22) // Delay is in milliseconds
+    frameControl[24] = 0 // Dispose: none
+    frameControl[25] = 0 // Blend: source
+    parts.push(pngChunk("fcTL", frameControl))
+
+    const data = compressScanlines(width, height, pixels)
+    if (index === 0) {
+      parts.push(pngChunk("IDAT", data))
+    } else {
+      const frameData = Buffer.alloc(4 + data.length)
+      frameData.writeUInt32BE(sequence++, 0)
+      frameData.set(data, 4)
+      parts.push(pngChunk("fdAT", frameData))
+    }
+  })
+
+  parts.push(pngChunk("IEND", new Uint8Array(0)))
+  return Buffer.concat(parts)
+}
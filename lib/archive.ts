@@ -0,0 +1,334 @@
+import { DecompressionStream } from "node:stream/web"
+import { loadModel, loadSTLStream, MODEL_FIELDS, MODEL_FORMATS, type LoadedModel } from "@/lib/model"
+import { multipartBoundary, multipartReader, readField } from "@/lib/multipart"
+import { extractZipFile, MAX_ARCHIVE_ENTRIES, MAX_EXPANDED_SIZE, readZipDirectory, type ZipFile } from "@/lib/zip"
+
+// Most models one uploaded archive may hold, each rendered in turn
+export const MAX_ARCHIVE_MODELS = 32
+
+// Largest text field accepted next to the model, such as the JSON options
+const MAX_FIELD_SIZE = 1024 * 1024
+
+const GZIP_MAGIC = [0x1f, 0x8b]
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]
+
+// One model file from an upload. Archive entries are only decompressed when loaded.
+export interface UploadEntry {
+  name: string
+  load: () => LoadedModel
+}
+
+export interface Upload {
+  // How the models were packed: "zip" uploads are answered per entry, while a gzip
+  // stream holds a single file and is treated as if it had been sent uncompressed
+  archive: "gzip" | "zip" | null
+  entries: UploadEntry[]
+  // Archive entries that are not models, such as readme files and folders
+  skipped: string[]
+}
+
+export type ExpandedUpload = { success: true; upload: Upload } | { success: false; status: number; error: string }
+
+function startsWith(bytes: Uint8Array, magic: number[]): boolean {
+  return magic.every((byte, index) => bytes[index] === byte)
+}
+
+function extension(name: string): string {
+  return name.split(".").pop()?.toLowerCase() ?? ""
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+    return bytes.buffer as ArrayBuffer
+  }
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+// 3MF packages are ZIP files too; they are told apart by their model part
+function isZipArchive(name: string, bytes: Uint8Array): boolean {
+  if (!startsWith(bytes, ZIP_MAGIC) || extension(name) === "3mf") return false
+  if (extension(name) === "zip") return true
+  try {
+    return !readZipDirectory(bytes).some((file) => file.name.toLowerCase().endsWith(".model"))
+  } catch {
+    return false
+  }
+}
+
+// Folders, macOS resource forks and hidden files are never models
+function isModelEntry(file: ZipFile): boolean {
+  const base = file.name.split("/").pop() ?? ""
+  return (
+    !file.name.endsWith("/") &&
+    !file.name.startsWith("__MACOSX/") &&
+    !base.startsWith(".") &&
+    (MODEL_FORMATS as readonly string[]).includes(extension(base))
+  )
+}
+
+function expandZip(name: string, bytes: Uint8Array): ExpandedUpload {
+  let files: ZipFile[]
+  try {
+    files = readZipDirectory(bytes)
+  } catch (error) {
+    return { success: false, status: 400, error: `Could not read ${name}: ${(error as Error).message}` }
+  }
+
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    return { success: false, status: 413, error: `Archive has more than ${MAX_ARCHIVE_ENTRIES} entries` }
+  }
+
+  const models = files.filter(isModelEntry)
+  if (models.length === 0) {
+    return { success: false, status: 400, error: "No model files found in archive" }
+  }
+  if (models.length > MAX_ARCHIVE_MODELS) {
+    return { success: false, status: 413, error: `Archive holds more than ${MAX_ARCHIVE_MODELS} model files` }
+  }
+
+  // Extraction stops at each entry's declared size, so checking the declared total
+  // bounds what the archive can really expand to
+  const expandedSize = models.reduce((sum, file) => sum + file.size, 0)
+  if (expandedSize > MAX_EXPANDED_SIZE) {
+    return { success: false, status: 413, error: `Archive expands past ${MAX_EXPANDED_SIZE} bytes` }
+  }
+
+  console.log(`Archive ${name}: ${models.length} models, ${expandedSize} bytes expanded`)
+  return {
+    success: true,
+    upload: {
+      archive: "zip",
+      entries: models.map((file) => ({
+        name: file.name,
+        load: () => loadModel(file.name, toArrayBuffer(extractZipFile(bytes, file))),
+      })),
+      skipped: files.filter((file) => !isModelEntry(file)).map((file) => file.name),
+    },
+  }
+}
+
+// Why a ZIP model package is too large to open, or null when it is within the limits.
+// Unreadable packages are left for the loader to report.
+function checkPackage(bytes: Uint8Array): string | null {
+  let files: ZipFile[]
+  try {
+    files = readZipDirectory(bytes)
+  } catch {
+    return null
+  }
+
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    return `Package has more than ${MAX_ARCHIVE_ENTRIES} entries`
+  }
+  if (files.reduce((sum, file) => sum + file.size, 0) > MAX_EXPANDED_SIZE) {
+    return `Package expands past ${MAX_EXPANDED_SIZE} bytes`
+  }
+  return null
+}
+
+// Hold back the first bytes of a stream to look at, returning a stream that still
+// starts from the beginning
+async function peek(
+  stream: ReadableStream<Uint8Array>,
+  length: number,
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  let done = false
+  while (!done && size < length) {
+    const next = await reader.read()
+    if (next.done) {
+      done = true
+    } else {
+      chunks.push(next.value)
+      size += next.value.length
+    }
+  }
+
+  const head = Buffer.concat(chunks)
+  return {
+    head,
+    stream: new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (head.length > 0) controller.enqueue(head)
+        if (done) controller.close()
+      },
+      async pull(controller) {
+        const next = await reader.read()
+        if (next.done) {
+          controller.close()
+        } else {
+          controller.enqueue(next.value)
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason)
+      },
+    }),
+  }
+}
+
+// Read a whole stream into memory, or null once it passes `limit` bytes
+async function readAll(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array | null> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    size += next.value.length
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(next.value)
+  }
+  return Buffer.concat(chunks)
+}
+
+// Inflate a gzip stream as it is read, failing it once the output passes MAX_EXPANDED_SIZE
+function gunzipStream(stream: ReadableStream<Uint8Array>): {
+  stream: ReadableStream<Uint8Array>
+  exceeded: () => boolean
+} {
+  let size = 0
+  let exceeded = false
+  const limit = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.length
+      if (size > MAX_EXPANDED_SIZE) {
+        exceeded = true
+        controller.error(new Error(`Output passed ${MAX_EXPANDED_SIZE} bytes`))
+      } else {
+        controller.enqueue(chunk)
+      }
+    },
+  })
+  // Node's web streams are the global ones, but the DOM typings in use predate DecompressionStream
+  const gunzip = new DecompressionStream("gzip") as unknown as TransformStream<Uint8Array, Uint8Array>
+  return { stream: stream.pipeThrough(gunzip).pipeThrough(limit), exceeded: () => exceeded }
+}
+
+// Unpack an upload into the models it holds. A gzip stream is inflated as it arrives
+// (its name loses the ".gz") and a ZIP archive is listed entry by entry; anything else
+// is a single model as sent. A gzipped ZIP is both. `size` is the length of the
+// stream when it is known.
+export async function expandUpload(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+  size: number | null,
+): Promise<ExpandedUpload> {
+  const { head, stream: body } = await peek(stream, GZIP_MAGIC.length)
+  if (!startsWith(head, GZIP_MAGIC)) {
+    return expandStream(name, body, size, null)
+  }
+
+  console.log(`Decompressing ${name}`)
+  const inflated = gunzipStream(body)
+  try {
+    // The compressed size says nothing about the inflated one
+    return await expandStream(name.replace(/\.(gz|gzip)$/i, ""), inflated.stream, null, "gzip")
+  } catch (error) {
+    return inflated.exceeded()
+      ? { success: false, status: 413, error: `Compressed file expands past ${MAX_EXPANDED_SIZE} bytes` }
+      : { success: false, status: 400, error: `Could not decompress ${name}: ${(error as Error).message}` }
+  }
+}
+
+// STL files are parsed as they stream in, so only the mesh is held. Other formats
+// and archives need the whole file and are read into memory first, up to MAX_EXPANDED_SIZE.
+async function expandStream(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+  size: number | null,
+  archive: "gzip" | null,
+): Promise<ExpandedUpload> {
+  const { head, stream: body } = await peek(stream, ZIP_MAGIC.length)
+
+  // A ZIP archive named .stl is still an archive
+  if (extension(name) === "stl" && !startsWith(head, ZIP_MAGIC)) {
+    const model = await loadSTLStream(name, body, size)
+    return { success: true, upload: { archive, entries: [{ name, load: () => model }], skipped: [] } }
+  }
+
+  const bytes = await readAll(body, MAX_EXPANDED_SIZE)
+  if (!bytes) {
+    return { success: false, status: 413, error: `${name} is larger than ${MAX_EXPANDED_SIZE} bytes` }
+  }
+  if (archive === "gzip") {
+    console.log(`Decompressed ${name}: ${bytes.length} bytes`)
+  }
+
+  if (isZipArchive(name, bytes)) {
+    return expandZip(name, bytes)
+  }
+
+  // A 3MF package is unpacked by its loader, which reads only the parts it needs, but
+  // the package is held to the same limits as an archive
+  if (startsWith(bytes, ZIP_MAGIC)) {
+    const limit = checkPackage(bytes)
+    if (limit) return { success: false, status: 413, error: limit }
+  }
+
+  const buffer = toArrayBuffer(bytes)
+  return {
+    success: true,
+    upload: { archive, entries: [{ name, load: () => loadModel(name, buffer) }], skipped: [] },
+  }
+}
+
+export interface ReceivedUpload {
+  // Name the file was sent under, before any unpacking
+  filename: string
+  // Text fields sent with a multipart upload, such as "options"; empty for a raw body
+  formData: FormData
+  // The unpacked model file, or null when the request carried none
+  expanded: ExpandedUpload | null
+}
+
+// Take the model from a request as it arrives. A multipart form sends it in a model
+// file field (see MODEL_FIELDS) next to text fields such as "options"; the first such
+// file is used and any others are skipped. Any other body is the model itself, named
+// by the X-Filename header, except a URL-encoded form, which cannot carry a file.
+export async function readUpload(request: Request): Promise<ReceivedUpload> {
+  const contentType = request.headers.get("content-type") ?? ""
+  const boundary = multipartBoundary(contentType)
+
+  if (boundary === null) {
+    if (/^application\/x-www-form-urlencoded/i.test(contentType)) {
+      return { filename: "", formData: await request.formData(), expanded: null }
+    }
+
+    const filename = request.headers.get("x-filename") || "model.stl"
+    const size = Number(request.headers.get("content-length")) || null
+    if (!request.body) {
+      return { filename, formData: new FormData(), expanded: null }
+    }
+
+    console.log(`Raw upload: ${filename}${size === null ? "" : `, size: ${size} bytes`}`)
+    return { filename, formData: new FormData(), expanded: await expandUpload(filename, request.body, size) }
+  }
+
+  const formData = new FormData()
+  let filename = ""
+  let expanded: ExpandedUpload | null = null
+  if (!request.body) {
+    return { filename, formData, expanded }
+  }
+
+  const form = multipartReader(request.body, boundary)
+  try {
+    for (let part = await form.nextPart(); part !== null; part = await form.nextPart()) {
+      if (part.filename === null) {
+        formData.append(part.name, await readField(part, MAX_FIELD_SIZE))
+      } else if (expanded === null && MODEL_FIELDS.includes(part.name)) {
+        filename = part.filename
+        console.log(`File: ${filename}`)
+        expanded = await expandUpload(filename, part.body, null)
+      }
+    }
+  } catch (error) {
+    expanded = { success: false, status: 400, error: `Could not read the form data: ${(error as Error).message}` }
+  }
+
+  return { filename, formData, expanded }
+}
@@ -0,0 +1,148 @@
+import type { Bounds } from "@/lib/mesh"
+import { cross, dot, normalize, subtract, type Vec3 } from "@/lib/vector"
+
+// 4x4 matrices are stored row-major: element (row, column) lives at index row * 4 + column
+export type Mat4 = number[]
+
+export type Projection = { type: "orthographic" } | { type: "perspective"; fov: number }
+
+export interface Camera {
+  eye: Vec3
+  target: Vec3
+  up: Vec3
+  projection: Projection
+  // Magnification applied after the model has been fitted to the image
+  zoom?: number
+}
+
+export const DEFAULT_PERSPECTIVE_FOV = 35
+
+export function identity(): Mat4 {
+  return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]
+}
+
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  const result = new Array<number>(16).fill(0)
+  for (let row = 0; row < 4; row++) {
+    for (let column = 0; column < 4; column++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) {
+        sum += a[row * 4 + k] * b[k * 4 + column]
+      }
+      result[row * 4 + column] = sum
+    }
+  }
+  return result
+}
+
+// Transform a point, returning homogeneous [x, y, z, w]
+export function transformPoint(m: Mat4, p: Vec3): [number, number, number, number] {
+  return [
+    m[0] * p[0] + m[1] * p[1] + m[2] * p[2] + m[3],
+    m[4] * p[0] + m[5] * p[1] + m[6] * p[2] + m[7],
+    m[8] * p[0] + m[9] * p[1] + m[10] * p[2] + m[11],
+    m[12] * p[0] + m[13] * p[1] + m[14] * p[2] + m[15],
+  ]
+}
+
+// Right-handed look-at matrix: the camera looks down its local -Z axis with +Y up
+export function lookAt(eye: Vec3, target: Vec3, up: Vec3): Mat4 {
+  const zAxis = normalize(subtract(eye, target))
+  let xAxis = normalize(cross(up, zAxis))
+  if (xAxis[0] === 0 && xAxis[1] === 0 && xAxis[2] === 0) {
+    // Up is parallel to the viewing direction; pick any perpendicular axis
+    xAxis = normalize(cross(Math.abs(zAxis[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0], zAxis))
+  }
+  const yAxis = cross(zAxis, xAxis)
+
+  return [
+    xAxis[0], xAxis[1], xAxis[2], -dot(xAxis, eye),
+    yAxis[0], yAxis[1], yAxis[2], -dot(yAxis, eye),
+    zAxis[0], zAxis[1], zAxis[2], -dot(zAxis, eye),
+    0, 0, 0, 1,
+  ]
+}
+
+// Map a view-space box onto normalized device coordinates (-1..1 on every axis)
+export function orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): Mat4 {
+  return [
+    2 / (right - left), 0, 0, -(right + left) / (right - left),
+    0, 2 / (top - bottom), 0, -(top + bottom) / (top - bottom),
+    0, 0, -2 / (far - near), -(far + near) / (far - near),
+    0, 0, 0, 1,
+  ]
+}
+
+// Perspective projection with a vertical field of view given in degrees
+export function perspective(fov: number, aspect: number, near: number, far: number): Mat4 {
+  const f = 1 / Math.tan((fov * Math.PI) / 360)
+  return [
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (far + near) / (near - far), (2 * far * near) / (near - far),
+    0, 0, -1, 0,
+  ]
+}
+
+// Unit direction from the target towards the eye. Azimuth turns from the front (+Z)
+// towards the right (+X); elevation tilts up towards +Y. Both are in degrees.
+export function orbitDirection(azimuth: number, elevation: number): Vec3 {
+  const a = (azimuth * Math.PI) / 180
+  const e = (elevation * Math.PI) / 180
+  return [Math.cos(e) * Math.sin(a), Math.sin(e), Math.cos(e) * Math.cos(a)]
+}
+
+// Turn the camera about its viewing axis. Positive angles (in degrees) roll the
+// camera clockwise, so the model appears to turn counter-clockwise on screen.
+export function rollCamera(camera: Camera, roll: number): Camera {
+  if (roll === 0) {
+    return camera
+  }
+
+  const axis = normalize(subtract(camera.target, camera.eye))
+  const angle = (roll * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const turn = cross(axis, camera.up)
+  const along = dot(axis, camera.up) * (1 - cos)
+
+  // Rodrigues' rotation of the up vector
+  const up: Vec3 = [
+    camera.up[0] * cos + turn[0] * sin + axis[0] * along,
+    camera.up[1] * cos + turn[1] * sin + axis[1] * along,
+    camera.up[2] * cos + turn[2] * sin + axis[2] * along,
+  ]
+
+  return { ...camera, up }
+}
+
+export function boundsCenter(bounds: Bounds): Vec3 {
+  return [
+    (bounds.min[0] + bounds.max[0]) / 2,
+    (bounds.min[1] + bounds.max[1]) / 2,
+    (bounds.min[2] + bounds.max[2]) / 2,
+  ]
+}
+
+// Place a camera along a direction so that a bounding box is fully in view
+export function frameBounds(
+  direction: Vec3,
+  up: Vec3,
+  bounds: Bounds,
+  projection: Projection = { type: "orthographic" },
+): Camera {
+  const target = boundsCenter(bounds)
+  const radius = Math.max(Math.hypot(...subtract(bounds.max, bounds.min)) / 2, 1e-6)
+
+  // Far enough back that the bounding sphere fits the field of view
+  const distance =
+    projection.type === "perspective" ? radius / Math.sin((projection.fov * Math.PI) / 360) : radius * 2
+
+  const unit = normalize(direction)
+  return {
+    eye: [target[0] + unit[0] * distance, target[1] + unit[1] * distance, target[2] + unit[2] * distance],
+    target,
+    up,
+    projection,
+  }
+}
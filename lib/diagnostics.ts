@@ -0,0 +1,173 @@
+import { edgeCount, edgeValence, NO_EDGE, type EdgeAdjacency } from "@/lib/adjacency"
+import { cornerVertex, triangleCount, vertexPosition, type Mesh } from "@/lib/mesh"
+import type { Highlight, RGB } from "@/lib/rasterizer"
+import type { Vec3 } from "@/lib/vector"
+
+// Locations reported per problem; the counts cover all of them
+const MAX_SAMPLES = 10
+
+const PROBLEM_COLOR: RGB = [255, 0, 0]
+
+// Facets whose area is this small relative to their longest side squared are degenerate
+const DEGENERATE_TOLERANCE = 1e-10
+
+// Edge and triangle ids of everything that keeps a mesh from being a closed,
+// consistently oriented surface
+export interface MeshProblems {
+  // Edges used by only one facet
+  boundaryEdges: number[]
+  // Edges shared by more than two facets
+  nonManifoldEdges: number[]
+  // Edges whose two facets run along them in the same direction, i.e. disagree on which side is out
+  inconsistentEdges: number[]
+  degenerateTriangles: number[]
+  // Facets using the same three vertices as an earlier facet, in either winding
+  duplicateTriangles: number[]
+}
+
+export interface ProblemSummary {
+  count: number
+  samples: Vec3[]
+}
+
+export interface MeshDiagnostics {
+  // No boundary or non-manifold edges: the surface encloses a volume
+  closed: boolean
+  boundaryEdges: ProblemSummary
+  nonManifoldEdges: ProblemSummary
+  inconsistentWinding: ProblemSummary
+  degenerateFacets: ProblemSummary
+  duplicateFacets: ProblemSummary
+}
+
+function isDegenerate(mesh: Mesh, triangle: number): boolean {
+  const a = vertexPosition(mesh, cornerVertex(mesh, triangle, 0))
+  const b = vertexPosition(mesh, cornerVertex(mesh, triangle, 1))
+  const c = vertexPosition(mesh, cornerVertex(mesh, triangle, 2))
+  const ux = b[0] - a[0],
+    uy = b[1] - a[1],
+    uz = b[2] - a[2]
+  const vx = c[0] - a[0],
+    vy = c[1] - a[1],
+    vz = c[2] - a[2]
+  const wx = c[0] - b[0],
+    wy = c[1] - b[1],
+    wz = c[2] - b[2]
+  const twiceArea = Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx)
+  const longest = Math.max(ux * ux + uy * uy + uz * uz, vx * vx + vy * vy + vz * vz, wx * wx + wy * wy + wz * wz)
+  return !(twiceArea > DEGENERATE_TOLERANCE * longest)
+}
+
+// The corner a triangle leaves an edge from, going round in its winding order
+function edgeStart(mesh: Mesh, adjacency: EdgeAdjacency, triangle: number, edge: number): number {
+  for (let side = 0; side < 3; side++) {
+    if (adjacency.triangleEdges[triangle * 3 + side] === edge) {
+      return cornerVertex(mesh, triangle, side)
+    }
+  }
+  return -1
+}
+
+function sameVertices(mesh: Mesh, first: number, second: number): boolean {
+  const a = [0, 1, 2].map((corner) => cornerVertex(mesh, first, corner)).sort((x, y) => x - y)
+  const b = [0, 1, 2].map((corner) => cornerVertex(mesh, second, corner)).sort((x, y) => x - y)
+  return a[0] === b[0] && a[1] === b[1] && a[2] === b[2]
+}
+
+// Check an indexed mesh (see weldVertices) and its edge adjacency for defects
+export function findMeshProblems(mesh: Mesh, adjacency: EdgeAdjacency): MeshProblems {
+  const problems: MeshProblems = {
+    boundaryEdges: [],
+    nonManifoldEdges: [],
+    inconsistentEdges: [],
+    degenerateTriangles: [],
+    duplicateTriangles: [],
+  }
+
+  for (let edge = 0; edge < edgeCount(adjacency); edge++) {
+    const valence = edgeValence(adjacency, edge)
+    if (valence === 1) {
+      problems.boundaryEdges.push(edge)
+    } else if (valence > 2) {
+      problems.nonManifoldEdges.push(edge)
+    } else {
+      const offset = adjacency.edgeOffsets[edge]
+      const first = adjacency.edgeTriangles[offset]
+      const second = adjacency.edgeTriangles[offset + 1]
+      if (first !== second && edgeStart(mesh, adjacency, first, edge) === edgeStart(mesh, adjacency, second, edge)) {
+        problems.inconsistentEdges.push(edge)
+      }
+    }
+  }
+
+  for (let triangle = 0; triangle < triangleCount(mesh); triangle++) {
+    if (isDegenerate(mesh, triangle)) {
+      problems.degenerateTriangles.push(triangle)
+      continue
+    }
+
+    // A duplicate shares every edge with its original, so the first edge's facets are enough to check
+    const edge = adjacency.triangleEdges[triangle * 3]
+    if (edge === NO_EDGE) continue
+    for (let i = adjacency.edgeOffsets[edge]; i < adjacency.edgeOffsets[edge + 1]; i++) {
+      const other = adjacency.edgeTriangles[i]
+      if (other < triangle && sameVertices(mesh, triangle, other)) {
+        problems.duplicateTriangles.push(triangle)
+        break
+      }
+    }
+  }
+
+  return problems
+}
+
+function edgeMidpoint(mesh: Mesh, adjacency: EdgeAdjacency, edge: number): Vec3 {
+  const a = vertexPosition(mesh, adjacency.edges[edge * 2])
+  const b = vertexPosition(mesh, adjacency.edges[edge * 2 + 1])
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2]
+}
+
+function triangleCenter(mesh: Mesh, triangle: number): Vec3 {
+  const [a, b, c] = [0, 1, 2].map((corner) => vertexPosition(mesh, cornerVertex(mesh, triangle, corner)))
+  return [(a[0] + b[0] + c[0]) / 3, (a[1] + b[1] + c[1]) / 3, (a[2] + b[2] + c[2]) / 3]
+}
+
+function summarize(ids: number[], locate: (id: number) => Vec3): ProblemSummary {
+  return { count: ids.length, samples: ids.slice(0, MAX_SAMPLES).map(locate) }
+}
+
+// Counts and sample locations (edge midpoints, facet centres) in the mesh's current coordinates
+export function diagnoseMesh(mesh: Mesh, adjacency: EdgeAdjacency, problems: MeshProblems): MeshDiagnostics {
+  const atEdge = (edge: number) => edgeMidpoint(mesh, adjacency, edge)
+  const atTriangle = (triangle: number) => triangleCenter(mesh, triangle)
+
+  return {
+    closed: problems.boundaryEdges.length === 0 && problems.nonManifoldEdges.length === 0,
+    boundaryEdges: summarize(problems.boundaryEdges, atEdge),
+    nonManifoldEdges: summarize(problems.nonManifoldEdges, atEdge),
+    inconsistentWinding: summarize(problems.inconsistentEdges, atEdge),
+    degenerateFacets: summarize(problems.degenerateTriangles, atTriangle),
+    duplicateFacets: summarize(problems.duplicateTriangles, atTriangle),
+  }
+}
+
+// Render overlay: duplicate facets are filled in red, and defective edges plus the
+// sides of degenerate facets (which have no area to fill) are traced in red
+export function problemHighlight(mesh: Mesh, adjacency: EdgeAdjacency, problems: MeshProblems): Highlight {
+  const triangles = new Uint8Array(triangleCount(mesh))
+  for (const triangle of problems.duplicateTriangles) {
+    triangles[triangle] = 1
+  }
+
+  const edges: number[] = []
+  for (const edge of [...problems.boundaryEdges, ...problems.nonManifoldEdges, ...problems.inconsistentEdges]) {
+    edges.push(adjacency.edges[edge * 2], adjacency.edges[edge * 2 + 1])
+  }
+  for (const triangle of problems.degenerateTriangles) {
+    for (let side = 0; side < 3; side++) {
+      edges.push(cornerVertex(mesh, triangle, side), cornerVertex(mesh, triangle, (side + 1) % 3))
+    }
+  }
+
+  return { color: PROBLEM_COLOR, triangles, edges: Uint32Array.from(edges) }
+}
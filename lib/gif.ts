@@ -0,0 +1,216 @@
+// Animated GIF89a encoder. All frames share one global palette, built by
+// median cut over a 15-bit colour histogram of every frame.
+
+export interface GIFOptions {
+  // Milliseconds per frame
+  delay: number
+  // 0 loops forever, otherwise the total number of times the animation plays
+  loop: number
+}
+
+const HISTOGRAM_BITS = 5
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3)
+
+function colorKey(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+}
+
+interface ColorBox {
+  keys: number[]
+}
+
+// Reduce the colours in all frames to at most 256 entries. Returns the palette
+// and a lookup from 15-bit colour key to palette index.
+function buildPalette(frames: Uint8Array[]): { palette: Uint8Array; lookup: Uint8Array } {
+  const counts = new Uint32Array(HISTOGRAM_SIZE)
+  for (const pixels of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      counts[colorKey(pixels[i], pixels[i + 1], pixels[i + 2])]++
+    }
+  }
+
+  const used: number[] = []
+  for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+    if (counts[key] > 0) used.push(key)
+  }
+
+  const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31
+
+  // Repeatedly split the box with the widest channel range at its weighted median
+  const boxes: ColorBox[] = [{ keys: used }]
+  while (boxes.length < 256) {
+    let widest = -1
+    let widestChannel = 0
+    let widestRange = 0
+    boxes.forEach((box, index) => {
+      if (box.keys.length < 2) return
+      for (let c = 0; c < 3; c++) {
+        let min = 31,
+          max = 0
+        for (const key of box.keys) {
+          const value = channel(key, c)
+          if (value < min) min = value
+          if (value > max) max = value
+        }
+        if (max - min > widestRange) {
+          widestRange = max - min
+          widest = index
+          widestChannel = c
+        }
+      }
+    })
+
+    if (widest < 0) break
+
+    const keys = boxes[widest].keys.sort((a, b) => channel(a, widestChannel) - channel(b, widestChannel))
+    const total = keys.reduce((sum, key) => sum + counts[key], 0)
+    let running = 0
+    let split = 1
+    for (let i = 0; i < keys.length - 1; i++) {
+      running += counts[keys[i]]
+      if (running >= total / 2) {
+        split = i + 1
+        break
+      }
+    }
+
+    boxes.splice(widest, 1, { keys: keys.slice(0, split) }, { keys: keys.slice(split) })
+  }
+
+  const palette = new Uint8Array(256 * 3)
+  const lookup = new Uint8Array(HISTOGRAM_SIZE)
+  boxes.forEach((box, index) => {
+    let r = 0,
+      g = 0,
+      b = 0,
+      total = 0
+    for (const key of box.keys) {
+      const weight = counts[key]
+      r += ((channel(key, 0) << 3) | 4) * weight
+      g += ((channel(key, 1) << 3) | 4) * weight
+      b += ((channel(key, 2) << 3) | 4) * weight
+      total += weight
+      lookup[key] = index
+    }
+    if (total > 0) {
+      palette[index * 3] = Math.round(r / total)
+      palette[index * 3 + 1] = Math.round(g / total)
+      palette[index * 3 + 2] = Math.round(b / total)
+    }
+  })
+
+  return { palette, lookup }
+}
+
+// Variable-width LZW as used by GIF, packed least significant bit first
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const output: number[] = []
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  const table = new Map<number, number>()
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i]
+    const key = (prefix << 8) | symbol
+    const existing = table.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+
+    emit(prefix)
+
+    if (nextCode === 4096) {
+      // Table is full: start over
+      emit(clearCode)
+      table.clear()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      // The decoder widens its codes one entry behind the encoder
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+
+    prefix = symbol
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff)
+  }
+
+  return Uint8Array.from(output)
+}
+
+// Split image data into length-prefixed sub-blocks of at most 255 bytes
+function subBlocks(data: Uint8Array): number[] {
+  const blocks: number[] = []
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, offset + 255)
+    blocks.push(chunk.length, ...chunk)
+  }
+  blocks.push(0)
+  return blocks
+}
+
+function uint16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff]
+}
+
+// Encode RGBA frames of equal size as an animated GIF. Alpha is ignored.
+export function encodeGIF(width: number, height: number, frames: Uint8Array[], options: GIFOptions): Buffer {
+  const { palette, lookup } = buildPalette(frames)
+  const parts: Buffer[] = []
+
+  // Header, logical screen descriptor (256 entry global colour table) and the palette
+  parts.push(Buffer.from("GIF89a", "latin1"))
+  parts.push(Buffer.from([...uint16(width), ...uint16(height), 0xf7, 0, 0]))
+  parts.push(Buffer.from(palette))
+
+  // NETSCAPE2.0 extension; its count is the number of repeats after the first play
+  if (options.loop !== 1) {
+    const repeats = options.loop === 0 ? 0 : options.loop - 1
+    parts.push(
+      Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from("NETSCAPE2.0", "latin1"), 0x03, 0x01, ...uint16(repeats), 0x00]),
+    )
+  }
+
+  // Browsers treat delays under 2 centiseconds as 10, so never go below that
+  const delay = Math.max(2, Math.round(options.delay / 10))
+
+  const indices = new Uint8Array(width * height)
+  for (const pixels of frames) {
+    for (let i = 0, j = 0; j < indices.length; i += 4, j++) {
+      indices[j] = lookup[colorKey(pixels[i], pixels[i + 1], pixels[i + 2])]
+    }
+
+    // Graphic control extension: no disposal, no transparency
+    parts.push(Buffer.from([0x21, 0xf9, 0x04, 0x00, ...uint16(delay), 0x00, 0x00]))
+    // Image descriptor covering the whole canvas, no local colour table
+    parts.push(Buffer.from([0x2c, ...uint16(0), ...uint16(0), ...uint16(width), ...uint16(height), 0x00]))
+    parts.push(Buffer.from([8, ...subBlocks(lzwEncode(indices, 8))]))
+  }
+
+  parts.push(Buffer.from([0x3b]))
+  return Buffer.concat(parts)
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseGLTF } from "@/lib/gltf"
+
+// One triangle's positions, as an embedded base64 buffer
+const TRIANGLE = Buffer.from(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]).buffer)
+
+function gltf(document: object): ArrayBuffer {
+  const base = {
+    asset: { version: "2.0" },
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: "VEC3" }],
+    bufferViews: [{ buffer: 0, byteLength: TRIANGLE.length }],
+    buffers: [
+      { uri: `data:application/octet-stream;base64,${TRIANGLE.toString("base64")}`, byteLength: TRIANGLE.length },
+    ],
+  }
+  const bytes = Buffer.from(JSON.stringify({ ...base, ...document }))
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)
+}
+
+test("each node holding a mesh is placed with its transform", () => {
+  const mesh = parseGLTF(gltf({ nodes: [{ mesh: 0 }, { mesh: 0, translation: [5, 0, 0] }] }))
+  assert.equal(mesh.positions.length, 18)
+  assert.equal(mesh.positions[9], 5)
+  assert.deepEqual([...(mesh.parts ?? [])], [0, 1])
+})
+
+test("an accessor that claims more elements than its buffer view holds is rejected before allocating", () => {
+  const document = {
+    nodes: [{ mesh: 0 }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 60_000_000, type: "VEC3" }],
+  }
+  assert.throws(() => parseGLTF(gltf(document)), /runs past its buffer/)
+})
+
+test("an accessor without a buffer view is rejected rather than read as zeros", () => {
+  const document = { nodes: [{ mesh: 0 }], accessors: [{ componentType: 5126, count: 3_000_000, type: "VEC3" }] }
+  assert.throws(() => parseGLTF(gltf(document)), /no buffer view/)
+})
+
+test("a node listed as a child twice is rejected instead of walked for every path", () => {
+  // Each node names the next one twice, so walking every path would visit the last 2^40 times
+  const nodes = Array.from({ length: 40 }, (_, index) =>
+    index === 39 ? { mesh: 0 } : { children: [index + 1, index + 1] },
+  )
+  const started = performance.now()
+  assert.throws(() => parseGLTF(gltf({ nodes })), /more than one parent/)
+  assert.ok(performance.now() - started < 1000)
+})
+
+test("a cycle of nodes is rejected", () => {
+  const document = { scenes: [{ nodes: [0] }], nodes: [{ children: [1] }, { children: [0], mesh: 0 }] }
+  assert.throws(() => parseGLTF(gltf(document)), /its own ancestor/)
+})
+
+test("a scene placing a mesh more often than the cap allows is rejected", () => {
+  const document = { scenes: [{ nodes: Array.from({ length: 100_001 }, () => 0) }], nodes: [{ mesh: 0 }] }
+  assert.throws(() => parseGLTF(gltf(document)), /places more than 100000 meshes/)
+})
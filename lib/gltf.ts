@@ -0,0 +1,371 @@
+import { ensureCapacity, type Mesh } from "@/lib/mesh"
+import type { RGB } from "@/lib/rasterizer"
+
+const GLB_MAGIC = 0x46546c67 // "glTF"
+const JSON_CHUNK = 0x4e4f534a
+const BIN_CHUNK = 0x004e4942
+
+const TRIANGLES = 4
+const TRIANGLE_STRIP = 5
+const TRIANGLE_FAN = 6
+
+// Nodes nested deeper than this are left out
+const MAX_NODE_DEPTH = 64
+
+// Meshes placed and triangles produced across the scene. Nodes can place the same mesh
+// any number of times, so a small file could otherwise expand without bound.
+const MAX_MESH_INSTANCES = 100_000
+const MAX_PLACED_TRIANGLES = 10_000_000
+
+// Column-major 4x4, as glTF stores node matrices
+type Matrix = number[]
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]
+
+// The parts of the glTF 2.0 schema that are read here
+interface GLTFAccessor {
+  bufferView?: number
+  byteOffset?: number
+  componentType: number
+  normalized?: boolean
+  count: number
+  type: string
+  sparse?: unknown
+}
+
+interface GLTFPrimitive {
+  attributes: Record<string, number>
+  indices?: number
+  material?: number
+  mode?: number
+  extensions?: Record<string, unknown>
+}
+
+interface GLTFNode {
+  children?: number[]
+  mesh?: number
+  matrix?: number[]
+  translation?: number[]
+  rotation?: number[]
+  scale?: number[]
+}
+
+interface GLTFDocument {
+  scene?: number
+  scenes?: { nodes?: number[] }[]
+  nodes?: GLTFNode[]
+  meshes?: { primitives: GLTFPrimitive[] }[]
+  materials?: { pbrMetallicRoughness?: { baseColorFactor?: number[] } }[]
+  accessors?: GLTFAccessor[]
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[]
+  buffers?: { uri?: string; byteLength: number }[]
+}
+
+const COMPONENT_SIZES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 }
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 }
+
+function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
+  const result = new Array<number>(16).fill(0)
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[column * 4 + k]
+      }
+      result[column * 4 + row] = sum
+    }
+  }
+  return result
+}
+
+// A node's local transform: its matrix, or translation * rotation * scale
+function nodeMatrix(node: GLTFNode): Matrix {
+  if (node.matrix?.length === 16) {
+    return node.matrix
+  }
+
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0]
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1]
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1]
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ]
+}
+
+function determinant3(m: Matrix): number {
+  return (
+    m[0] * (m[5] * m[10] - m[9] * m[6]) - m[4] * (m[1] * m[10] - m[9] * m[2]) + m[8] * (m[1] * m[6] - m[5] * m[2])
+  )
+}
+
+// baseColorFactor is linear; images are sRGB encoded
+function linearToSRGB(value: number): number {
+  const clamped = Math.max(0, Math.min(1, value))
+  const encoded = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055
+  return Math.round(encoded * 255)
+}
+
+// Split a GLB container into its JSON document and binary chunk, or decode a .gltf JSON file
+function readContainer(buffer: ArrayBuffer): { document: GLTFDocument; binary: Uint8Array | null } {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+    return { document: JSON.parse(new TextDecoder("utf-8").decode(buffer)), binary: null }
+  }
+
+  let document: GLTFDocument | null = null
+  let binary: Uint8Array | null = null
+  const end = Math.min(view.getUint32(8, true), buffer.byteLength)
+  for (let offset = 12; offset + 8 <= end; ) {
+    const length = view.getUint32(offset, true)
+    const type = view.getUint32(offset + 4, true)
+    const data = new Uint8Array(buffer, offset + 8, Math.min(length, end - offset - 8))
+    if (type === JSON_CHUNK) {
+      document = JSON.parse(new TextDecoder("utf-8").decode(data))
+    } else if (type === BIN_CHUNK && binary === null) {
+      binary = data
+    }
+    offset += 8 + length
+  }
+
+  if (!document) throw new Error("GLB file has no JSON chunk")
+  return { document, binary }
+}
+
+// Buffers come from the GLB binary chunk or from base64 data URIs; external files
+// cannot be fetched from an upload
+function loadBuffers(document: GLTFDocument, binary: Uint8Array | null): Uint8Array[] {
+  return (document.buffers ?? []).map((buffer, index) => {
+    if (buffer.uri === undefined) {
+      if (index === 0 && binary) return binary
+      throw new Error(`glTF buffer ${index} has no data`)
+    }
+
+    const match = /^data:[^,]*;base64,(.*)$/s.exec(buffer.uri)
+    if (!match) throw new Error(`glTF buffer ${index} refers to an external file: ${buffer.uri}`)
+    return new Uint8Array(Buffer.from(match[1], "base64"))
+  })
+}
+
+// Read an accessor component by component into a typed array. Normalized integers
+// become 0-1 (or -1-1) floats. The accessor must fit inside its buffer view before
+// anything is allocated for it.
+function readAccessor<T extends Float32Array | Uint32Array>(
+  document: GLTFDocument,
+  buffers: Uint8Array[],
+  index: number,
+  ArrayType: new (length: number) => T,
+): T {
+  const accessor = document.accessors?.[index]
+  if (!accessor) throw new Error(`glTF accessor ${index} is missing`)
+  // Without a buffer view an accessor is all zeros or only sparse values, neither of
+  // which makes a mesh
+  if (accessor.bufferView === undefined || accessor.sparse !== undefined) {
+    throw new Error(`glTF accessor ${index} has no buffer view or uses sparse storage, which is not supported`)
+  }
+
+  const components = TYPE_SIZES[accessor.type] ?? 1
+  const componentSize = COMPONENT_SIZES[accessor.componentType]
+  const bufferView = document.bufferViews?.[accessor.bufferView]
+  const data = bufferView && buffers[bufferView.buffer]
+  if (!bufferView || !data || !componentSize || !Number.isInteger(accessor.count) || accessor.count < 0) {
+    throw new Error(`glTF accessor ${index} cannot be read`)
+  }
+
+  const viewStart = bufferView.byteOffset ?? 0
+  const stride = bufferView.byteStride ?? components * componentSize
+  const byteOffset = accessor.byteOffset ?? 0
+  const byteLength = accessor.count > 0 ? byteOffset + (accessor.count - 1) * stride + components * componentSize : 0
+  if (viewStart + bufferView.byteLength > data.byteLength || byteLength > bufferView.byteLength) {
+    throw new Error(`glTF accessor ${index} runs past its buffer`)
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const start = viewStart + byteOffset
+  const values = new ArrayType(accessor.count * components)
+  for (let element = 0; element < accessor.count; element++) {
+    for (let component = 0; component < components; component++) {
+      const offset = start + element * stride + component * componentSize
+      let value: number
+      switch (accessor.componentType) {
+        case 5120:
+          value = accessor.normalized ? Math.max(view.getInt8(offset) / 127, -1) : view.getInt8(offset)
+          break
+        case 5121:
+          value = accessor.normalized ? view.getUint8(offset) / 255 : view.getUint8(offset)
+          break
+        case 5122:
+          value = accessor.normalized ? Math.max(view.getInt16(offset, true) / 32767, -1) : view.getInt16(offset, true)
+          break
+        case 5123:
+          value = accessor.normalized ? view.getUint16(offset, true) / 65535 : view.getUint16(offset, true)
+          break
+        case 5125:
+          value = view.getUint32(offset, true)
+          break
+        default:
+          value = view.getFloat32(offset, true)
+      }
+      values[element * components + component] = value
+    }
+  }
+
+  return values
+}
+
+// Corner indices of a primitive's triangles, whatever its topology
+function triangleCorners(mode: number, indices: Uint32Array): Uint32Array {
+  if (mode === TRIANGLES) {
+    return indices.subarray(0, indices.length - (indices.length % 3))
+  }
+
+  const corners = new Uint32Array(Math.max(indices.length - 2, 0) * 3)
+  for (let i = 2; i < indices.length; i++) {
+    if (mode === TRIANGLE_FAN) {
+      corners.set([indices[0], indices[i - 1], indices[i]], (i - 2) * 3)
+    } else {
+      // Every other triangle of a strip is wound the other way round
+      const [a, b] = i % 2 === 0 ? [indices[i - 2], indices[i - 1]] : [indices[i - 1], indices[i - 2]]
+      corners.set([a, b, indices[i]], (i - 2) * 3)
+    }
+  }
+  return corners
+}
+
+// glTF 2.0 reader for binary .glb files and .gltf files with embedded buffers. The
+// default scene is walked from its root nodes, each mesh is placed with its node's
+// world transform, and every triangle takes its material's base colour factor.
+// Each node that holds a mesh becomes one part (see Mesh.parts). A node may have only
+// one parent, and the meshes and triangles placed are capped. Textures, vertex colours,
+// sparse accessors and compressed geometry are not read.
+export function parseGLTF(buffer: ArrayBuffer): Mesh {
+  console.log(`Parsing glTF file, buffer size: ${buffer.byteLength} bytes`)
+
+  const { document, binary } = readContainer(buffer)
+  const buffers = loadBuffers(document, binary)
+  const nodes = document.nodes ?? []
+
+  // The default scene, else the first, else every node that is nobody's child
+  const scene = document.scenes?.[document.scene ?? 0]
+  const parents = new Map<number, number>()
+  nodes.forEach((node, index) => {
+    for (const child of node.children ?? []) {
+      if (parents.has(child)) throw new Error(`glTF node ${child} has more than one parent`)
+      parents.set(child, index)
+    }
+  })
+  const roots = scene?.nodes ?? nodes.map((_, index) => index).filter((index) => !parents.has(index))
+
+  let positions = new Float32Array(0)
+  let colors = new Uint8Array(0)
+  let coloredFaces = new Uint8Array(0)
+  let parts = new Uint32Array(0)
+  let triangles = 0
+  let part = 0
+  let instances = 0
+  let colored = 0
+  let skippedPrimitives = 0
+
+  const addMesh = (meshIndex: number, matrix: Matrix) => {
+    const mirrored = determinant3(matrix) < 0
+    if (++instances > MAX_MESH_INSTANCES) {
+      throw new Error(`glTF scene places more than ${MAX_MESH_INSTANCES} meshes`)
+    }
+
+    for (const primitive of document.meshes?.[meshIndex]?.primitives ?? []) {
+      const mode = primitive.mode ?? TRIANGLES
+      const position = primitive.attributes.POSITION
+      if (
+        (mode !== TRIANGLES && mode !== TRIANGLE_STRIP && mode !== TRIANGLE_FAN) ||
+        position === undefined ||
+        primitive.extensions?.KHR_draco_mesh_compression
+      ) {
+        skippedPrimitives++
+        continue
+      }
+
+      const points = readAccessor(document, buffers, position, Float32Array)
+      const vertices = Math.floor(points.length / 3)
+      const indices =
+        primitive.indices === undefined
+          ? Uint32Array.from({ length: vertices }, (_, index) => index)
+          : readAccessor(document, buffers, primitive.indices, Uint32Array)
+      const corners = triangleCorners(mode, indices)
+
+      const factor = document.materials?.[primitive.material ?? -1]?.pbrMetallicRoughness?.baseColorFactor
+      // Primitives without a material are left uncoloured (see Mesh.coloredFaces)
+      const color: RGB | null =
+        primitive.material === undefined
+          ? null
+          : [linearToSRGB(factor?.[0] ?? 1), linearToSRGB(factor?.[1] ?? 1), linearToSRGB(factor?.[2] ?? 1)]
+
+      const count = corners.length / 3
+      if (triangles + count > MAX_PLACED_TRIANGLES) {
+        throw new Error(`glTF scene places more than ${MAX_PLACED_TRIANGLES} triangles`)
+      }
+      positions = ensureCapacity(positions, (triangles + count) * 9)
+      colors = ensureCapacity(colors, (triangles + count) * 3)
+      coloredFaces = ensureCapacity(coloredFaces, triangles + count)
+      parts = ensureCapacity(parts, triangles + count)
+
+      for (let triangle = 0; triangle < count; triangle++) {
+        const triangleIndices = corners.slice(triangle * 3, triangle * 3 + 3)
+        if (triangleIndices.some((vertex) => vertex >= vertices)) continue
+        if (mirrored) triangleIndices.reverse()
+
+        for (let corner = 0; corner < 3; corner++) {
+          const vertex = triangleIndices[corner] * 3
+          const [x, y, z] = [points[vertex], points[vertex + 1], points[vertex + 2]]
+          for (let axis = 0; axis < 3; axis++) {
+            positions[triangles * 9 + corner * 3 + axis] =
+              matrix[axis] * x + matrix[4 + axis] * y + matrix[8 + axis] * z + matrix[12 + axis]
+          }
+        }
+        if (color) {
+          colors.set(color, triangles * 3)
+          colored++
+        }
+        coloredFaces[triangles] = color ? 1 : 0
+        parts[triangles] = part
+        triangles++
+      }
+    }
+  }
+
+  // A node reached again while its own subtree is being walked closes a cycle
+  const walking = new Set<number>()
+  const visit = (nodeIndex: number, parentMatrix: Matrix, depth: number) => {
+    const node = nodes[nodeIndex]
+    if (!node || depth > MAX_NODE_DEPTH) return
+    if (walking.has(nodeIndex)) throw new Error(`glTF node ${nodeIndex} is its own ancestor`)
+    walking.add(nodeIndex)
+
+    const matrix = multiplyMatrices(parentMatrix, nodeMatrix(node))
+    if (node.mesh !== undefined) {
+      addMesh(node.mesh, matrix)
+      part++
+    }
+    for (const child of node.children ?? []) {
+      visit(child, matrix, depth + 1)
+    }
+    walking.delete(nodeIndex)
+  }
+
+  for (const root of roots) {
+    visit(root, IDENTITY, 0)
+  }
+
+  if (skippedPrimitives > 0) {
+    console.log(`Skipped ${skippedPrimitives} primitives that are not triangles or are compressed`)
+  }
+
+  console.log(`Parsed ${triangles} triangles from ${part} mesh nodes`)
+  return {
+    positions: positions.slice(0, triangles * 9),
+    ...(colored > 0 ? { faceColors: colors.slice(0, triangles * 3) } : {}),
+    ...(colored > 0 && colored < triangles ? { coloredFaces: coloredFaces.slice(0, triangles) } : {}),
+    parts: parts.slice(0, triangles),
+  }
+}
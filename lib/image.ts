@@ -0,0 +1,27 @@
+import { encodeJPEG } from "@/lib/jpeg"
+import { encodePNG } from "@/lib/png"
+import type { ImageFormat } from "@/lib/render-options"
+
+export interface EncodedImage {
+  data: Buffer
+  mimeType: string
+  extension: string
+}
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = { png: "png", jpeg: "jpg" }
+
+export function encodeImage(
+  format: ImageFormat,
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+  quality?: number,
+): EncodedImage {
+  return format === "jpeg"
+    ? { data: encodeJPEG(width, height, pixels, quality), mimeType: "image/jpeg", extension: IMAGE_EXTENSIONS.jpeg }
+    : { data: encodePNG(width, height, pixels), mimeType: "image/png", extension: IMAGE_EXTENSIONS.png }
+}
+
+export function toDataURL(image: { data: Buffer; mimeType: string }): string {
+  return `data:${image.mimeType};base64,${image.data.toString("base64")}`
+}
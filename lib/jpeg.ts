@@ -0,0 +1,275 @@
+// Baseline JPEG encoder (sequential DCT, Huffman coded, no chroma subsampling)
+// using the example quantization and Huffman tables from Annex K of the spec.
+
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+]
+
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87,
+  80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92,
+  95, 98, 112, 100, 103, 99,
+]
+
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99,
+  99, 99, ...new Array<number>(32).fill(99),
+]
+
+interface HuffmanSpec {
+  counts: number[]
+  symbols: number[]
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+
+const DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+
+const AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14,
+    0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09,
+    0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a,
+    0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88,
+    0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9,
+    0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca,
+    0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea,
+    0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+
+const AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32,
+    0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16,
+    0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39,
+    0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64,
+    0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86,
+    0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8,
+    0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9,
+    0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+
+interface HuffmanTable {
+  codes: Uint16Array
+  lengths: Uint8Array
+}
+
+// Assign canonical codes: shorter codes first, consecutive within each length
+function buildHuffmanTable(spec: HuffmanSpec): HuffmanTable {
+  const codes = new Uint16Array(256)
+  const lengths = new Uint8Array(256)
+  let code = 0
+  let k = 0
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      const symbol = spec.symbols[k++]
+      codes[symbol] = code
+      lengths[symbol] = length
+      code++
+    }
+    code <<= 1
+  }
+  return { codes, lengths }
+}
+
+// cos((2x + 1) * u * pi / 16) with the C(u) / 2 normalisation folded in
+const DCT_COEFFICIENTS = (() => {
+  const table = new Float64Array(64)
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16)
+    }
+  }
+  return table
+})()
+
+function scaleQuantization(base: number[], quality: number): number[] {
+  const factor = quality < 50 ? 5000 / quality : 200 - quality * 2
+  return base.map((value) => Math.min(255, Math.max(1, Math.floor((value * factor + 50) / 100))))
+}
+
+class BitWriter {
+  bytes: number[] = []
+  private buffer = 0
+  private count = 0
+
+  write(code: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((code >> i) & 1)
+      this.count++
+      if (this.count === 8) {
+        this.bytes.push(this.buffer)
+        // A literal 0xFF in entropy-coded data must be followed by a stuffed zero
+        if (this.buffer === 0xff) this.bytes.push(0)
+        this.buffer = 0
+        this.count = 0
+      }
+    }
+  }
+
+  flush() {
+    // Pad the final byte with one bits
+    if (this.count > 0) {
+      this.write((1 << (8 - this.count)) - 1, 8 - this.count)
+    }
+  }
+}
+
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value)
+  let length = 0
+  while (magnitude > 0) {
+    length++
+    magnitude >>= 1
+  }
+  return length
+}
+
+function encodeBlock(
+  writer: BitWriter,
+  block: Float64Array,
+  quantization: number[],
+  previousDC: number,
+  dc: HuffmanTable,
+  ac: HuffmanTable,
+): number {
+  // Forward DCT, separable over rows then columns
+  const rows = new Float64Array(64)
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0
+      for (let x = 0; x < 8; x++) sum += DCT_COEFFICIENTS[u * 8 + x] * block[y * 8 + x]
+      rows[y * 8 + u] = sum
+    }
+  }
+
+  const quantized = new Int32Array(64)
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0
+      for (let y = 0; y < 8; y++) sum += DCT_COEFFICIENTS[v * 8 + y] * rows[y * 8 + u]
+      quantized[v * 8 + u] = Math.round(sum / quantization[v * 8 + u])
+    }
+  }
+
+  // DC coefficient is coded as the difference from the previous block
+  const dcValue = quantized[0]
+  const difference = dcValue - previousDC
+  const dcCategory = bitLength(difference)
+  writer.write(dc.codes[dcCategory], dc.lengths[dcCategory])
+  if (dcCategory > 0) {
+    writer.write(difference < 0 ? difference + (1 << dcCategory) - 1 : difference, dcCategory)
+  }
+
+  // AC coefficients are run-length coded in zigzag order
+  let zeroRun = 0
+  for (let k = 1; k < 64; k++) {
+    const value = quantized[ZIGZAG[k]]
+    if (value === 0) {
+      zeroRun++
+      continue
+    }
+    while (zeroRun > 15) {
+      writer.write(ac.codes[0xf0], ac.lengths[0xf0])
+      zeroRun -= 16
+    }
+    const category = bitLength(value)
+    const symbol = (zeroRun << 4) | category
+    writer.write(ac.codes[symbol], ac.lengths[symbol])
+    writer.write(value < 0 ? value + (1 << category) - 1 : value, category)
+    zeroRun = 0
+  }
+  if (zeroRun > 0) {
+    writer.write(ac.codes[0x00], ac.lengths[0x00]) // End of block
+  }
+
+  return dcValue
+}
+
+function segment(marker: number, data: number[]): number[] {
+  const length = data.length + 2
+  return [0xff, marker, length >> 8, length & 0xff, ...data]
+}
+
+function huffmanSegmentData(tableClass: number, id: number, spec: HuffmanSpec): number[] {
+  return [(tableClass << 4) | id, ...spec.counts, ...spec.symbols]
+}
+
+// Encode RGBA pixels as a baseline JPEG file. Alpha is ignored.
+export function encodeJPEG(width: number, height: number, pixels: Uint8Array, quality = 90): Buffer {
+  const clampedQuality = Math.min(100, Math.max(1, Math.round(quality)))
+  const luminanceTable = scaleQuantization(LUMINANCE_QUANTIZATION, clampedQuality)
+  const chrominanceTable = scaleQuantization(CHROMINANCE_QUANTIZATION, clampedQuality)
+
+  const header: number[] = [0xff, 0xd8]
+  // JFIF APP0: version 1.1, no density units, 1:1 aspect, no thumbnail
+  header.push(...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]))
+  header.push(...segment(0xdb, [0x00, ...ZIGZAG.map((i) => luminanceTable[i]), 0x01, ...ZIGZAG.map((i) => chrominanceTable[i])]))
+  header.push(
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]),
+  )
+  header.push(
+    ...segment(0xc4, [
+      ...huffmanSegmentData(0, 0, DC_LUMINANCE),
+      ...huffmanSegmentData(1, 0, AC_LUMINANCE),
+      ...huffmanSegmentData(0, 1, DC_CHROMINANCE),
+      ...huffmanSegmentData(1, 1, AC_CHROMINANCE),
+    ]),
+  )
+  header.push(...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]))
+
+  const dcLuminance = buildHuffmanTable(DC_LUMINANCE)
+  const acLuminance = buildHuffmanTable(AC_LUMINANCE)
+  const dcChrominance = buildHuffmanTable(DC_CHROMINANCE)
+  const acChrominance = buildHuffmanTable(AC_CHROMINANCE)
+
+  const writer = new BitWriter()
+  const yBlock = new Float64Array(64)
+  const cbBlock = new Float64Array(64)
+  const crBlock = new Float64Array(64)
+  let previousY = 0,
+    previousCb = 0,
+    previousCr = 0
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      for (let y = 0; y < 8; y++) {
+        // Replicate edge pixels into blocks that overhang the image
+        const row = Math.min(blockY + y, height - 1)
+        for (let x = 0; x < 8; x++) {
+          const column = Math.min(blockX + x, width - 1)
+          const index = (row * width + column) * 4
+          const r = pixels[index]
+          const g = pixels[index + 1]
+          const b = pixels[index + 2]
+          yBlock[y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128
+          cbBlock[y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b
+          crBlock[y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b
+        }
+      }
+
+      previousY = encodeBlock(writer, yBlock, luminanceTable, previousY, dcLuminance, acLuminance)
+      previousCb = encodeBlock(writer, cbBlock, chrominanceTable, previousCb, dcChrominance, acChrominance)
+      previousCr = encodeBlock(writer, crBlock, chrominanceTable, previousCr, dcChrominance, acChrominance)
+    }
+  }
+
+  writer.flush()
+
+  return Buffer.concat([Buffer.from(header), Buffer.from(writer.bytes), Buffer.from([0xff, 0xd9])])
+}
@@ -0,0 +1,89 @@
+import type { Vec3 } from "@/lib/vector"
+
+// Triangle mesh kept in flat typed arrays, so large models cost a few big
+// allocations rather than one small array per facet. Without indices every
+// three consecutive vertices form a triangle.
+export interface Mesh {
+  // x, y, z per vertex
+  positions: Float32Array
+  // Unit normal per vertex, parallel to positions
+  normals?: Float32Array
+  // Normal per triangle corner (x, y, z for corners 0-2 of each triangle in turn) as
+  // the file gave them, for smooth shading; [0, 0, 0] where it gave none. Unlike
+  // vertex normals these survive welding, so hard edges drawn by the file stay hard.
+  cornerNormals?: Float32Array
+  // r, g, b (0-255) per vertex
+  colors?: Uint8Array
+  // Three vertex indices per triangle
+  indices?: Uint32Array
+  // r, g, b (0-255) per triangle; drawn instead of the vertex colours
+  faceColors?: Uint8Array
+  // 1 for each triangle with a face colour, when only some have one. The others are
+  // drawn as if there were no face colours, so they take the requested model colour.
+  coloredFaces?: Uint8Array
+  // Part each triangle belongs to, for formats made of separate objects. Parts
+  // are kept apart when welding and each one is reported as a shell.
+  parts?: Uint32Array
+}
+
+export interface Bounds {
+  min: Vec3
+  max: Vec3
+}
+
+export function vertexCount(mesh: Mesh): number {
+  return mesh.positions.length / 3
+}
+
+export function triangleCount(mesh: Mesh): number {
+  return mesh.indices ? mesh.indices.length / 3 : mesh.positions.length / 9
+}
+
+// Index of the vertex at a corner (0-2) of a triangle
+export function cornerVertex(mesh: Mesh, triangle: number, corner: number): number {
+  return mesh.indices ? mesh.indices[triangle * 3 + corner] : triangle * 3 + corner
+}
+
+export function vertexPosition(mesh: Mesh, vertex: number): Vec3 {
+  const positions = mesh.positions
+  return [positions[vertex * 3], positions[vertex * 3 + 1], positions[vertex * 3 + 2]]
+}
+
+export function computeBounds(mesh: Mesh): Bounds {
+  const positions = mesh.positions
+  let minX = Number.POSITIVE_INFINITY,
+    minY = Number.POSITIVE_INFINITY,
+    minZ = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY,
+    maxY = Number.NEGATIVE_INFINITY,
+    maxZ = Number.NEGATIVE_INFINITY
+
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i],
+      y = positions[i + 1],
+      z = positions[i + 2]
+    if (x < minX) minX = x
+    if (x > maxX) maxX = x
+    if (y < minY) minY = y
+    if (y > maxY) maxY = y
+    if (z < minZ) minZ = z
+    if (z > maxZ) maxZ = z
+  }
+
+  return { min: [minX, minY, minZ], max: [maxX, maxY, maxZ] }
+}
+
+// Return an array with room for at least `length` elements, doubling the capacity
+// so that parsers which do not know their size up front append in amortised O(1)
+export function ensureCapacity<T extends Float32Array | Uint32Array | Uint16Array | Uint8Array>(
+  array: T,
+  length: number,
+): T {
+  if (length <= array.length) {
+    return array
+  }
+
+  const grown = new (array.constructor as new (length: number) => T)(Math.max(length, array.length * 2, 64))
+  grown.set(array)
+  return grown
+}
@@ -0,0 +1,102 @@
+import { parseGLTF } from "@/lib/gltf"
+import { computeBounds, type Bounds, type Mesh } from "@/lib/mesh"
+import { parseOBJ } from "@/lib/obj"
+import { parsePLY } from "@/lib/ply"
+import { detectSTLFormat, parseSTL, parseSTLStream, type STLColorConvention, type STLWarning } from "@/lib/stl"
+import { parse3MF } from "@/lib/threemf"
+
+export const MODEL_FORMATS = ["stl", "obj", "ply", "3mf", "glb", "gltf"] as const
+export type ModelFormat = (typeof MODEL_FORMATS)[number]
+
+// Upload fields that may carry the model; "stl" is the original name and still accepted
+export const MODEL_FIELDS = ["model", "stl"]
+
+export interface LoadedModel {
+  format: ModelFormat
+  mesh: Mesh
+  // Of the mesh as loaded, in the file's own coordinates
+  bounds: Bounds
+  // How facet colours were stored, for STL files; null for other formats
+  colorConvention: STLColorConvention | null
+  // Problems with the file that did not stop it loading
+  warnings: STLWarning[]
+}
+
+// The extension decides when it names a known format, otherwise the content does.
+// PLY starts with a "ply" magic line, GLB with "glTF" and 3MF is a ZIP package;
+// .gltf is JSON with an "asset" block, and OBJ is text whose statements start with
+// a short keyword such as "v" or "f".
+export function detectModelFormat(name: string, buffer: ArrayBuffer): ModelFormat {
+  const extension = name.split(".").pop()?.toLowerCase()
+  if ((MODEL_FORMATS as readonly string[]).includes(extension ?? "")) {
+    return extension as ModelFormat
+  }
+
+  const magic = new TextDecoder("latin1").decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4)))
+  if (/^ply\r?\n/.test(magic)) {
+    return "ply"
+  }
+  if (magic === "PK\x03\x04") {
+    return "3mf"
+  }
+  if (magic === "glTF") {
+    return "glb"
+  }
+
+  if (detectSTLFormat(buffer) === "ascii") {
+    return "stl"
+  }
+
+  const sample = new TextDecoder("latin1").decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4096)))
+  if (/^\s*\{/.test(sample) && sample.includes('"asset"')) {
+    return "gltf"
+  }
+  if (!/[\0]/.test(sample) && /^\s*(v|vn|vt|f|o|g|mtllib|usemtl)\s/m.test(sample)) {
+    return "obj"
+  }
+
+  return "stl"
+}
+
+export function parseModel(buffer: ArrayBuffer, format: ModelFormat, warnings: STLWarning[] = []): Mesh {
+  switch (format) {
+    case "obj":
+      return parseOBJ(buffer)
+    case "ply":
+      return parsePLY(buffer)
+    case "3mf":
+      return parse3MF(buffer)
+    case "glb":
+    case "gltf":
+      return parseGLTF(buffer)
+    case "stl":
+      return parseSTL(buffer, warnings).mesh
+  }
+}
+
+export function loadModel(name: string, buffer: ArrayBuffer): LoadedModel {
+  const format = detectModelFormat(name, buffer)
+  console.log(`Loading ${name} as ${format.toUpperCase()}`)
+  const warnings: STLWarning[] = []
+  if (format === "stl") {
+    // The parser reads the colour convention along with the facets
+    const { mesh, bounds, colorConvention } = parseSTL(buffer, warnings)
+    return { format, mesh, bounds, colorConvention, warnings }
+  }
+
+  const mesh = parseModel(buffer, format, warnings)
+  return { format, mesh, bounds: computeBounds(mesh), colorConvention: null, warnings }
+}
+
+// Load an STL as the stream arrives, without holding the file. Other formats need
+// all of their file and go through loadModel.
+export async function loadSTLStream(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+  size: number | null,
+): Promise<LoadedModel> {
+  console.log(`Streaming ${name} as STL`)
+  const warnings: STLWarning[] = []
+  const { mesh, bounds, colorConvention } = await parseSTLStream(stream, size, warnings)
+  return { format: "stl", mesh, bounds, colorConvention, warnings }
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { multipartBoundary, multipartReader, readField } from "@/lib/multipart"
+
+const BOUNDARY = "----form7MA4YWxkTrZu0gW"
+
+function body(parts: { headers: string; content: string }[]): Uint8Array {
+  const text = parts.map((part) => `--${BOUNDARY}\r\n${part.headers}\r\n\r\n${part.content}\r\n`).join("")
+  return new TextEncoder().encode(`preamble\r\n${text}--${BOUNDARY}--\r\n`)
+}
+
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+      } else {
+        controller.enqueue(bytes.slice(offset, offset + size))
+        offset += size
+      }
+    },
+  })
+}
+
+async function text(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text()
+}
+
+test("the boundary is read from the content type, quoted or not", () => {
+  assert.equal(multipartBoundary(`multipart/form-data; boundary=${BOUNDARY}`), BOUNDARY)
+  assert.equal(multipartBoundary('multipart/form-data; charset=utf-8; boundary="a b"'), "a b")
+  assert.equal(multipartBoundary("application/x-www-form-urlencoded"), null)
+})
+
+test("parts are read whole wherever the chunks cut the boundaries", async () => {
+  // Content that almost matches the delimiter must stay in the body
+  const file = `solid x\r\n--${BOUNDARY.slice(0, 10)}\r\nendsolid x`
+  const bytes = body([
+    { headers: 'Content-Disposition: form-data; name="options"', content: '{"width":64}' },
+    {
+      headers: 'Content-Disposition: form-data; name="model"; filename="a \\"b\\".stl"\r\nContent-Type: model/stl',
+      content: file,
+    },
+  ])
+
+  for (const size of [1, 3, 7, BOUNDARY.length + 3, bytes.length]) {
+    const reader = multipartReader(chunked(bytes, size), BOUNDARY)
+
+    const options = await reader.nextPart()
+    assert.ok(options, `chunk size ${size}`)
+    assert.equal(options.name, "options")
+    assert.equal(options.filename, null)
+    assert.equal(await readField(options, 1024), '{"width":64}')
+
+    const model = await reader.nextPart()
+    assert.ok(model)
+    assert.equal(model.filename, 'a "b".stl')
+    assert.equal(model.contentType, "model/stl")
+    assert.equal(await text(model.body), file)
+
+    assert.equal(await reader.nextPart(), null)
+  }
+})
+
+test("a part left unread is skipped by the next one", async () => {
+  const bytes = body([
+    { headers: 'Content-Disposition: form-data; name="model"; filename="a.stl"', content: "x".repeat(5000) },
+    { headers: 'Content-Disposition: form-data; name="note"', content: "after" },
+  ])
+  const reader = multipartReader(chunked(bytes, 64), BOUNDARY)
+  await reader.nextPart()
+  const note = await reader.nextPart()
+  assert.ok(note)
+  assert.equal(await readField(note, 1024), "after")
+})
+
+test("a field over its size limit and a body cut off inside a part are errors", async () => {
+  const large = body([{ headers: 'Content-Disposition: form-data; name="options"', content: "x".repeat(100) }])
+  const field = await multipartReader(chunked(large, 16), BOUNDARY).nextPart()
+  assert.ok(field)
+  await assert.rejects(readField(field, 10), /larger than 10 bytes/)
+
+  const cut = body([{ headers: 'Content-Disposition: form-data; name="note"', content: "text" }]).slice(0, -20)
+  const truncated = multipartReader(chunked(cut, 16), BOUNDARY)
+  const note = await truncated.nextPart()
+  assert.ok(note)
+  await assert.rejects(readField(note, 1024), /ended inside a part/)
+})
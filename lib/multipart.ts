@@ -0,0 +1,152 @@
+// Longest header block a part may have before the body is treated as malformed
+const MAX_HEADER_SIZE = 16 * 1024
+
+const HEADER_END = Buffer.from("\r\n\r\n")
+
+export interface MultipartPart {
+  // Form field name, from Content-Disposition
+  name: string
+  // Set for file fields, even when the browser sent an empty name
+  filename: string | null
+  contentType: string | null
+  // Pulls from the request as it is read; what is left unread is skipped by the next nextPart()
+  body: ReadableStream<Uint8Array>
+}
+
+export interface MultipartReader {
+  // The next part, or null after the last one
+  nextPart: () => Promise<MultipartPart | null>
+}
+
+// The boundary of a multipart/form-data content type, or null for other types
+export function multipartBoundary(contentType: string): string | null {
+  if (!/^multipart\/form-data\s*(;|$)/i.test(contentType)) return null
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType)
+  return match ? (match[1] ?? match[2]) : null
+}
+
+function parameter(header: string, name: string): string | null {
+  const pattern = new RegExp(`;\\s*${name}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]*))`, "i")
+  const match = pattern.exec(header)
+  return match ? (match[1]?.replace(/\\(.)/g, "$1") ?? match[2].trim()) : null
+}
+
+// Read a multipart/form-data body part by part without holding it. Only the bytes
+// that might be the start of a boundary are kept back between chunks, so a file part
+// can be parsed as it uploads and never sits in memory whole.
+export function multipartReader(stream: ReadableStream<Uint8Array>, boundary: string): MultipartReader {
+  const source = stream.getReader()
+  // Every boundary but the first follows a line break; starting the buffer with one
+  // lets the preamble be skipped like the body of a part
+  const delimiter = Buffer.from(`\r\n--${boundary}`)
+  let buffer = Buffer.from("\r\n")
+  let done = false
+  let finished = false
+  // Parts are numbered so that a body read after its part has ended sees nothing more
+  let part = 0
+  let partOpen = true
+
+  const fill = async () => {
+    const next = await source.read()
+    if (next.done) {
+      done = true
+    } else {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, next.value]) : Buffer.from(next.value)
+    }
+  }
+
+  // Body bytes of the current part, or null once its closing boundary has been read
+  const readBody = async (): Promise<Buffer | null> => {
+    while (partOpen) {
+      const end = buffer.indexOf(delimiter)
+      if (end !== -1) {
+        const body = buffer.subarray(0, end)
+        buffer = buffer.subarray(end + delimiter.length)
+        partOpen = false
+        return body
+      }
+
+      // The tail could be the start of a boundary cut off by the chunk
+      const safe = buffer.length - (delimiter.length - 1)
+      if (safe > 0) {
+        const body = buffer.subarray(0, safe)
+        buffer = buffer.subarray(safe)
+        return body
+      }
+
+      if (done) throw new Error("Form data ended inside a part")
+      await fill()
+    }
+    return null
+  }
+
+  const bodyStream = (id: number) =>
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (id === part) {
+          const body = await readBody()
+          if (body === null) break
+          if (body.length > 0) {
+            controller.enqueue(body)
+            return
+          }
+        }
+        controller.close()
+      },
+    })
+
+  return {
+    async nextPart() {
+      while (partOpen) {
+        await readBody()
+      }
+      part++
+      if (finished) return null
+
+      // A boundary is followed by "--" after the last part, else by the part's headers
+      while (buffer.length < 2 && !done) await fill()
+      if (buffer.subarray(0, 2).toString("latin1") === "--") {
+        finished = true
+        await source.cancel()
+        return null
+      }
+
+      let headerEnd = buffer.indexOf(HEADER_END)
+      while (headerEnd === -1) {
+        if (done || buffer.length > MAX_HEADER_SIZE) throw new Error("Malformed form data part headers")
+        await fill()
+        headerEnd = buffer.indexOf(HEADER_END)
+      }
+
+      // Headers start after the line break that ends the boundary line
+      const headers = new Map<string, string>()
+      for (const line of buffer.subarray(0, headerEnd).toString("utf8").split("\r\n")) {
+        const colon = line.indexOf(":")
+        if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim())
+      }
+      buffer = buffer.subarray(headerEnd + HEADER_END.length)
+      partOpen = true
+
+      const disposition = headers.get("content-disposition") ?? ""
+      return {
+        name: parameter(disposition, "name") ?? "",
+        filename: parameter(disposition, "filename"),
+        contentType: headers.get("content-type") ?? null,
+        body: bodyStream(part),
+      }
+    },
+  }
+}
+
+// Read a text field, refusing one longer than maxSize bytes
+export async function readField(part: MultipartPart, maxSize: number): Promise<string> {
+  const reader = part.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    size += next.value.length
+    if (size > maxSize) throw new Error(`Form field ${part.name} is larger than ${maxSize} bytes`)
+    chunks.push(next.value)
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
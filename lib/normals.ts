@@ -0,0 +1,84 @@
+import { cornerVertex, triangleCount, vertexCount, type Mesh } from "@/lib/mesh"
+
+// Normals for smooth shading, one per triangle corner: x, y, z for corners 0-2 of
+// each triangle in turn. A corner averages the facets around its vertex that meet
+// its own facet at no more than creaseAngle degrees, weighted by area, so facets
+// across a sharper edge keep a hard line between them; 180 smooths everything.
+// Only facets sharing vertex indices are averaged, so weld a triangle soup first.
+export function cornerNormals(mesh: Mesh, creaseAngle = 180): Float32Array {
+  const positions = mesh.positions
+  const count = triangleCount(mesh)
+
+  // Facet normals scaled by twice the facet area, and their unit directions for the angle test
+  const weighted = new Float64Array(count * 3)
+  const unit = new Float64Array(count * 3)
+  for (let triangle = 0; triangle < count; triangle++) {
+    const a = cornerVertex(mesh, triangle, 0) * 3
+    const b = cornerVertex(mesh, triangle, 1) * 3
+    const c = cornerVertex(mesh, triangle, 2) * 3
+    const ux = positions[b] - positions[a],
+      uy = positions[b + 1] - positions[a + 1],
+      uz = positions[b + 2] - positions[a + 2]
+    const vx = positions[c] - positions[a],
+      vy = positions[c + 1] - positions[a + 1],
+      vz = positions[c + 2] - positions[a + 2]
+    const nx = uy * vz - uz * vy,
+      ny = uz * vx - ux * vz,
+      nz = ux * vy - uy * vx
+    const length = Math.hypot(nx, ny, nz)
+
+    weighted.set([nx, ny, nz], triangle * 3)
+    if (length > 0) {
+      unit.set([nx / length, ny / length, nz / length], triangle * 3)
+    }
+  }
+
+  // Triangles around each vertex, as one flat list indexed by per-vertex offsets
+  const vertices = vertexCount(mesh)
+  const offsets = new Uint32Array(vertices + 1)
+  for (let triangle = 0; triangle < count; triangle++) {
+    for (let corner = 0; corner < 3; corner++) {
+      offsets[cornerVertex(mesh, triangle, corner) + 1]++
+    }
+  }
+  for (let vertex = 0; vertex < vertices; vertex++) {
+    offsets[vertex + 1] += offsets[vertex]
+  }
+  const incident = new Uint32Array(count * 3)
+  const filled = offsets.slice(0, vertices)
+  for (let triangle = 0; triangle < count; triangle++) {
+    for (let corner = 0; corner < 3; corner++) {
+      incident[filled[cornerVertex(mesh, triangle, corner)]++] = triangle
+    }
+  }
+
+  const minCosine = creaseAngle >= 180 ? Number.NEGATIVE_INFINITY : Math.cos((creaseAngle * Math.PI) / 180)
+  const normals = new Float32Array(count * 9)
+
+  for (let triangle = 0; triangle < count; triangle++) {
+    const t = triangle * 3
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = cornerVertex(mesh, triangle, corner)
+      let x = 0,
+        y = 0,
+        z = 0
+
+      for (let i = offsets[vertex]; i < offsets[vertex + 1]; i++) {
+        const u = incident[i] * 3
+        const cosine = unit[t] * unit[u] + unit[t + 1] * unit[u + 1] + unit[t + 2] * unit[u + 2]
+        if (u === t || cosine >= minCosine) {
+          x += weighted[u]
+          y += weighted[u + 1]
+          z += weighted[u + 2]
+        }
+      }
+
+      // Facets around the vertex that cancel out fall back to the corner's own facet
+      const length = Math.hypot(x, y, z)
+      const normal = length > 0 ? [x / length, y / length, z / length] : [unit[t], unit[t + 1], unit[t + 2]]
+      normals.set(normal, t * 3 + corner * 3)
+    }
+  }
+
+  return normals
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseOBJ } from "@/lib/obj"
+
+function obj(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer
+}
+
+const SQUARE = "v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 1 0\nvn 0 0 1\n"
+
+test("groups become parts, whether named by g or o", () => {
+  const mesh = parseOBJ(obj(`${SQUARE}g lid\nf 1 2 3\no base\nf 1 3 4\no lid\nf 2 3 4\n`))
+  assert.deepEqual([...(mesh.parts ?? [])], [0, 1, 0])
+})
+
+test("polygons are fanned and keep the normals given with their corners", () => {
+  const mesh = parseOBJ(obj(`${SQUARE}f 1//1 2//1 3//1 4//1\n`))
+  assert.equal(mesh.positions.length, 18)
+  assert.deepEqual([...(mesh.cornerNormals ?? []).slice(0, 3)], [0, 0, 1])
+  assert.equal(mesh.parts, undefined)
+})
+
+test("a vertex with a coordinate that is not a finite number is an error", () => {
+  const text = "v 0 0 0\nv 1 nan 0\nv 0 1 0\nf 1 2 3\n"
+  assert.throws(() => parseOBJ(obj(text)), /OBJ line 2 needs three finite coordinates/)
+})
@@ -0,0 +1,106 @@
+import { ensureCapacity, type Mesh } from "@/lib/mesh"
+
+// Wavefront OBJ reader for the geometry statements: v, vn and f. Faces become
+// triangle soup like an STL, so unused vertices never reach the mesh; normals given
+// with a face's corners are kept per corner for smooth shading. Each g or o statement
+// starts a group, and when faces fall into more than one group every group becomes a
+// part (see Mesh.parts); a name used again later, by either statement, carries on the
+// same part. A vertex or normal without three finite numbers is an error. Texture
+// coordinates, materials, lines and points are ignored.
+export function parseOBJ(buffer: ArrayBuffer): Mesh {
+  console.log(`Parsing OBJ file, buffer size: ${buffer.byteLength} bytes`)
+
+  // A trailing backslash continues a statement on the next line
+  const text = new TextDecoder("utf-8").decode(buffer).replace(/\\\r?\n/g, " ")
+
+  const vertices: number[] = []
+  const vertexNormals: number[] = []
+  let positions = new Float32Array(0)
+  let normals = new Float32Array(0)
+  let parts = new Uint32Array(0)
+  let length = 0
+  let hasNormals = false
+  let skippedFaces = 0
+
+  // Parts are numbered in order of their first face, so groups without faces take no number
+  const groupParts = new Map<string, number>()
+  let group = ""
+
+  // 1-based, or negative to count back from the latest element
+  const resolve = (token: string | undefined, count: number): number => {
+    const index = token ? Number.parseInt(token, 10) : Number.NaN
+    const resolved = index < 0 ? count + index : index - 1
+    return resolved >= 0 && resolved < count ? resolved : -1
+  }
+
+  // The x, y and z of a v or vn statement
+  const coordinates = (tokens: string[], lineNumber: number): number[] => {
+    const values = tokens.slice(1, 4).map(Number)
+    if (values.length < 3 || !values.every(Number.isFinite)) {
+      throw new Error(`OBJ line ${lineNumber} needs three finite coordinates: ${tokens.join(" ")}`)
+    }
+    return values
+  }
+
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    const tokens = line.trim().split(/\s+/)
+    const keyword = tokens[0]
+
+    if (keyword === "v") {
+      vertices.push(...coordinates(tokens, index + 1))
+    } else if (keyword === "vn") {
+      vertexNormals.push(...coordinates(tokens, index + 1))
+    } else if (keyword === "g" || keyword === "o") {
+      group = tokens.slice(1).join(" ")
+    } else if (keyword === "f") {
+      // Each corner is v, v/vt, v//vn or v/vt/vn
+      const corners = tokens.slice(1).map((token) => {
+        const [vertex, , normal] = token.split("/")
+        return { vertex: resolve(vertex, vertices.length / 3), normal: resolve(normal, vertexNormals.length / 3) }
+      })
+
+      if (corners.length < 3 || corners.some((corner) => corner.vertex === -1)) {
+        skippedFaces++
+        continue
+      }
+
+      let part = groupParts.get(group)
+      if (part === undefined) {
+        part = groupParts.size
+        groupParts.set(group, part)
+      }
+
+      // Fan polygons into triangles from their first corner
+      for (let i = 1; i + 1 < corners.length; i++) {
+        positions = ensureCapacity(positions, length + 9)
+        normals = ensureCapacity(normals, length + 9)
+        parts = ensureCapacity(parts, length / 9 + 1)
+        parts[length / 9] = part
+        for (const corner of [corners[0], corners[i], corners[i + 1]]) {
+          for (let axis = 0; axis < 3; axis++) {
+            positions[length + axis] = vertices[corner.vertex * 3 + axis]
+          }
+          if (corner.normal !== -1) {
+            for (let axis = 0; axis < 3; axis++) {
+              normals[length + axis] = vertexNormals[corner.normal * 3 + axis]
+            }
+            hasNormals = true
+          }
+          length += 3
+        }
+      }
+    }
+  }
+
+  if (skippedFaces > 0) {
+    console.log(`Skipped ${skippedFaces} faces with fewer than 3 valid vertices`)
+  }
+
+  console.log(`Parsed ${length / 9} triangles from ${vertices.length / 3} vertices in ${groupParts.size} groups`)
+  return {
+    positions: positions.slice(0, length),
+    // Soup vertices are corners, so the normals are already one per corner
+    ...(hasNormals ? { cornerNormals: normals.slice(0, length) } : {}),
+    ...(groupParts.size > 1 ? { parts: parts.slice(0, length / 9) } : {}),
+  }
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parsePLY } from "@/lib/ply"
+
+const XYZ = ["property float x", "property float y", "property float z"]
+
+function ply(header: string[], body: Uint8Array | string): ArrayBuffer {
+  const head = new TextEncoder().encode(`ply\n${header.join("\n")}\nend_header\n`)
+  const data = typeof body === "string" ? new TextEncoder().encode(body) : body
+  const bytes = new Uint8Array(head.length + data.length)
+  bytes.set(head)
+  bytes.set(data, head.length)
+  return bytes.buffer
+}
+
+test("an ASCII quad is fanned into triangles with its vertex colours", () => {
+  const header = [
+    "format ascii 1.0",
+    "element vertex 4",
+    ...XYZ,
+    "property uchar red",
+    "property uchar green",
+    "property uchar blue",
+    "element face 1",
+    "property list uchar int vertex_indices",
+  ]
+  const body = "0 0 0 255 0 0\n1 0 0 0 255 0\n1 1 0 0 0 255\n0 1 0 9 9 9\n4 0 1 2 3\n"
+  const mesh = parsePLY(ply(header, body))
+  assert.deepEqual([...(mesh.indices ?? [])], [0, 1, 2, 0, 2, 3])
+  assert.deepEqual([...(mesh.colors ?? []).slice(0, 6)], [255, 0, 0, 0, 255, 0])
+})
+
+test("a big-endian binary point cloud loads its vertices and no triangles", () => {
+  const body = new Uint8Array(24)
+  const view = new DataView(body.buffer)
+  for (let index = 0; index < 6; index++) view.setFloat32(index * 4, index + 1, false)
+  const header = ["format binary_big_endian 1.0", "element vertex 2", ...XYZ]
+  const mesh = parsePLY(ply(header, body))
+  assert.deepEqual([...mesh.positions], [1, 2, 3, 4, 5, 6])
+  assert.equal(mesh.indices?.length, 0)
+})
+
+test("a header declaring more vertices than the file holds is refused before allocating", () => {
+  const header = ["format binary_little_endian 1.0", "element vertex 300000000", ...XYZ]
+  assert.throws(() => parsePLY(ply(header, new Uint8Array(12))), /declares more elements than the file holds/)
+})
+
+test("a body that ends before its faces is an error", () => {
+  const faces = ["element face 1", "property list uchar int vertex_indices"]
+  const header = ["format ascii 1.0", "element vertex 3", ...XYZ, ...faces]
+  assert.throws(() => parsePLY(ply(header, "0 0 0\n1 0 0\n0 1 0\n3 0 1\n")), /PLY body ends early/)
+})
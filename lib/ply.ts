@@ -0,0 +1,225 @@
+import { ensureCapacity, type Mesh } from "@/lib/mesh"
+
+type PLYFormat = "ascii" | "binary_little_endian" | "binary_big_endian"
+
+interface PLYProperty {
+  name: string
+  type: string
+  // Element type of a list property; `type` is then the type of its length
+  listType?: string
+}
+
+interface PLYElement {
+  name: string
+  count: number
+  properties: PLYProperty[]
+}
+
+interface PLYType {
+  size: number
+  read: (view: DataView, offset: number, littleEndian: boolean) => number
+}
+
+// Byte size and DataView getter of every scalar type, under both spellings
+const PLY_TYPES: Record<string, PLYType> = {
+  char: { size: 1, read: (view, offset) => view.getInt8(offset) },
+  uchar: { size: 1, read: (view, offset) => view.getUint8(offset) },
+  short: { size: 2, read: (view, offset, littleEndian) => view.getInt16(offset, littleEndian) },
+  ushort: { size: 2, read: (view, offset, littleEndian) => view.getUint16(offset, littleEndian) },
+  int: { size: 4, read: (view, offset, littleEndian) => view.getInt32(offset, littleEndian) },
+  uint: { size: 4, read: (view, offset, littleEndian) => view.getUint32(offset, littleEndian) },
+  float: { size: 4, read: (view, offset, littleEndian) => view.getFloat32(offset, littleEndian) },
+  double: { size: 8, read: (view, offset, littleEndian) => view.getFloat64(offset, littleEndian) },
+}
+for (const [alias, type] of Object.entries({
+  int8: "char",
+  uint8: "uchar",
+  int16: "short",
+  uint16: "ushort",
+  int32: "int",
+  uint32: "uint",
+  float32: "float",
+  float64: "double",
+})) {
+  PLY_TYPES[alias] = PLY_TYPES[type]
+}
+
+// Vertex colour channels as written by common scanners and exporters
+const COLOR_PROPERTIES = [
+  ["red", "green", "blue"],
+  ["diffuse_red", "diffuse_green", "diffuse_blue"],
+  ["r", "g", "b"],
+]
+
+const FACE_INDEX_PROPERTIES = ["vertex_indices", "vertex_index"]
+
+function parseHeader(text: string): { format: PLYFormat; elements: PLYElement[] } {
+  let format: PLYFormat | null = null
+  const elements: PLYElement[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    const tokens = line.trim().split(/\s+/)
+    if (tokens[0] === "format") {
+      if (tokens[1] !== "ascii" && tokens[1] !== "binary_little_endian" && tokens[1] !== "binary_big_endian") {
+        throw new Error(`Unsupported PLY format: ${tokens[1]}`)
+      }
+      format = tokens[1]
+    } else if (tokens[0] === "element") {
+      const count = Number(tokens[2])
+      if (!Number.isSafeInteger(count) || count < 0) throw new Error(`PLY element ${tokens[1]} has no valid count`)
+      elements.push({ name: tokens[1], count, properties: [] })
+    } else if (tokens[0] === "property") {
+      const element = elements[elements.length - 1]
+      if (!element) throw new Error("PLY property declared before any element")
+
+      const property: PLYProperty =
+        tokens[1] === "list"
+          ? { name: tokens[4], type: tokens[2], listType: tokens[3] }
+          : { name: tokens[2], type: tokens[1] }
+      for (const type of [property.type, property.listType]) {
+        if (type !== undefined && !PLY_TYPES[type]) throw new Error(`Unknown PLY property type: ${type}`)
+      }
+      element.properties.push(property)
+    }
+  }
+
+  if (!format) throw new Error("PLY header has no format line")
+  return { format, elements }
+}
+
+// Colour channels are bytes, 16-bit integers or floats in 0-1
+function toByte(value: number, type: string): number {
+  const scaled = type === "float" || type === "float32" || type === "double" || type === "float64" ? value * 255 : value
+  const byte = type === "ushort" || type === "uint16" ? scaled / 257 : scaled
+  return Math.max(0, Math.min(255, Math.round(byte)))
+}
+
+// Stanford PLY reader for ASCII and binary files of either byte order. Any
+// elements and properties may be declared; x/y/z, normals and colours are read
+// from "vertex" and polygon index lists from "face", the rest is skipped. Files
+// without faces load as point clouds: vertices and no triangles.
+export function parsePLY(buffer: ArrayBuffer): Mesh {
+  console.log(`Parsing PLY file, buffer size: ${buffer.byteLength} bytes`)
+
+  const bytes = new Uint8Array(buffer)
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, Math.min(bytes.length, 65536)))
+  const end = /end_header[^\n]*\n/.exec(head)
+  if (!head.startsWith("ply") || !end) {
+    throw new Error("Not a PLY file")
+  }
+
+  const { format, elements } = parseHeader(head.slice(0, end.index))
+  const bodyStart = end.index + end[0].length
+  const littleEndian = format === "binary_little_endian"
+
+  // Every item takes some bytes of the body: each value is at least one character and
+  // a separator in ASCII, and a list at least its length in binary. Declared counts
+  // the body cannot hold are refused before anything is allocated for them.
+  const minimumSize = elements.reduce((total, element) => {
+    const itemSize = element.properties.reduce(
+      (size, property) => size + (format === "ascii" ? 2 : PLY_TYPES[property.type].size),
+      0,
+    )
+    return total + element.count * itemSize
+  }, 0)
+  if (minimumSize > buffer.byteLength - bodyStart + 1) {
+    throw new Error("PLY header declares more elements than the file holds")
+  }
+
+  // One reader for both encodings: the next value of the given type
+  let read: (type: string) => number
+  if (format === "ascii") {
+    const text = new TextDecoder("latin1").decode(bytes.subarray(bodyStart))
+    const tokenPattern = /\S+/g
+    read = () => {
+      const match = tokenPattern.exec(text)
+      if (!match) throw new Error("PLY body ends early")
+      return Number.parseFloat(match[0])
+    }
+  } else {
+    const view = new DataView(buffer)
+    let offset = bodyStart
+    read = (type) => {
+      const { size, read: get } = PLY_TYPES[type]
+      if (offset + size > buffer.byteLength) throw new Error("PLY body ends early")
+      const value = get(view, offset, littleEndian)
+      offset += size
+      return value
+    }
+  }
+
+  let positions = new Float32Array(0)
+  let normals: Float32Array | undefined
+  let colors: Uint8Array | undefined
+  let indices = new Uint32Array(0)
+  let vertices = 0
+  let length = 0
+  let skippedFaces = 0
+
+  for (const element of elements) {
+    const names = element.properties.map((property) => property.name)
+    const isVertex = element.name === "vertex"
+    const isFace = element.name === "face"
+
+    const position = ["x", "y", "z"].map((name) => (isVertex ? names.indexOf(name) : -1))
+    const normal = ["nx", "ny", "nz"].map((name) => (isVertex ? names.indexOf(name) : -1))
+    const color = (isVertex && COLOR_PROPERTIES.find((channels) => channels.every((name) => names.includes(name)))) || []
+    const colorIndex = color.map((name) => names.indexOf(name))
+    const faceIndex = isFace ? names.findIndex((name) => FACE_INDEX_PROPERTIES.includes(name)) : -1
+
+    if (isVertex) {
+      if (position.includes(-1)) throw new Error("PLY vertices have no x, y and z properties")
+      vertices = element.count
+      positions = new Float32Array(vertices * 3)
+      if (!normal.includes(-1)) normals = new Float32Array(vertices * 3)
+      if (colorIndex.length > 0) colors = new Uint8Array(vertices * 3)
+    }
+
+    const values = new Array<number>(element.properties.length)
+    let face: number[] = []
+
+    for (let item = 0; item < element.count; item++) {
+      element.properties.forEach((property, index) => {
+        if (property.listType === undefined) {
+          values[index] = read(property.type)
+          return
+        }
+
+        const list: number[] = []
+        const count = read(property.type)
+        for (let i = 0; i < count; i++) list.push(read(property.listType))
+        if (index === faceIndex) face = list
+      })
+
+      if (isVertex) {
+        for (let axis = 0; axis < 3; axis++) {
+          positions[item * 3 + axis] = values[position[axis]]
+          if (normals) normals[item * 3 + axis] = values[normal[axis]]
+          if (colors) {
+            colors[item * 3 + axis] = toByte(values[colorIndex[axis]], element.properties[colorIndex[axis]].type)
+          }
+        }
+      } else if (isFace && faceIndex !== -1) {
+        if (face.length < 3 || face.some((vertex) => !(vertex >= 0 && vertex < vertices))) {
+          skippedFaces++
+          continue
+        }
+
+        // Fan polygons into triangles from their first corner
+        for (let i = 1; i + 1 < face.length; i++) {
+          indices = ensureCapacity(indices, length + 3)
+          indices[length++] = face[0]
+          indices[length++] = face[i]
+          indices[length++] = face[i + 1]
+        }
+      }
+    }
+  }
+
+  if (skippedFaces > 0) {
+    console.log(`Skipped ${skippedFaces} faces with fewer than 3 valid vertices`)
+  }
+
+  console.log(`Parsed ${length / 3} triangles and ${vertices} vertices from ${format} PLY`)
+  return { positions, normals, colors, indices: indices.slice(0, length) }
+}
@@ -0,0 +1,77 @@
+import { deflateSync } from "node:zlib"
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return ~c >>> 0
+}
+
+export function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, "latin1")
+  chunk.set(data, 8)
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length)
+  return chunk
+}
+
+export function pngHeader(width: number, height: number): Buffer {
+  const ihdr = Buffer.alloc(13)
+  ihdr.writeUInt32BE(width, 0)
+  ihdr.writeUInt32BE(height, 4)
+  ihdr[8] = 8 // Bit depth
+  ihdr[9] = 6 // Colour type: RGBA
+  ihdr[10] = 0 // Compression
+  ihdr[11] = 0 // Filter
+  ihdr[12] = 0 // Interlace
+  return Buffer.concat([PNG_SIGNATURE, pngChunk("IHDR", ihdr)])
+}
+
+// Compress RGBA pixels into the zlib stream used by IDAT (and APNG fdAT) chunks.
+// Each scanline uses the "Up" filter, which suits the large flat areas of a render.
+export function compressScanlines(width: number, height: number, pixels: Uint8Array): Buffer {
+  const stride = width * 4
+  const filtered = Buffer.alloc((stride + 1) * height)
+
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1)
+    const source = y * stride
+    if (y === 0) {
+      filtered[row] = 0 // None
+      filtered.set(pixels.subarray(source, source + stride), row + 1)
+      continue
+    }
+
+    filtered[row] = 2 // Up
+    for (let x = 0; x < stride; x++) {
+      filtered[row + 1 + x] = (pixels[source + x] - pixels[source - stride + x]) & 0xff
+    }
+  }
+
+  return deflateSync(filtered)
+}
+
+// Encode RGBA pixels as a PNG file
+export function encodePNG(width: number, height: number, pixels: Uint8Array): Buffer {
+  return Buffer.concat([
+    pngHeader(width, height),
+    pngChunk("IDAT", compressScanlines(width, height, pixels)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ])
+}
@@ -0,0 +1,574 @@
+import { lookAt, multiply, orthographic, perspective, transformPoint, type Camera } from "@/lib/camera"
+import {
+  computeBounds,
+  cornerVertex,
+  triangleCount,
+  vertexCount,
+  vertexPosition,
+  type Bounds,
+  type Mesh,
+} from "@/lib/mesh"
+import { cornerNormals } from "@/lib/normals"
+import { cross, dot, normalize, scale, subtract, type Vec3 } from "@/lib/vector"
+
+export type RGB = [number, number, number]
+
+// "flat" lights each facet from its own normal, "smooth" blends the lighting across
+// facets from averaged vertex normals, "crease" smooths only where facets meet at less
+// than the crease angle, and "unlit" fills the model with its plain colour
+export const SHADING_MODES = ["flat", "smooth", "crease", "unlit"] as const
+
+export type ShadingMode = (typeof SHADING_MODES)[number]
+
+// A directional light placed relative to the camera: x towards the right of the
+// image, y up and z back towards the viewer. Light travels from that direction onto the model.
+export interface Light {
+  direction: Vec3
+  // Scales the light's diffuse and specular contribution
+  intensity: number
+}
+
+// Key light above and left of the camera, a dimmer fill from the right to lift the
+// shadows, and a rim light from behind that picks out the silhouette
+export const THREE_POINT_LIGHTS: Light[] = [
+  { direction: [-0.4, 0.6, 1], intensity: 0.7 },
+  { direction: [0.7, 0.1, 0.7], intensity: 0.3 },
+  { direction: [0.3, 0.8, -0.8], intensity: 0.4 },
+]
+
+export interface RasterOptions {
+  width: number
+  height: number
+  background: RGB
+  modelColor: RGB
+  // Outline every visible facet in this colour when set
+  edgeColor: RGB | null
+  shading: ShadingMode
+  // Degrees between facet normals above which "crease" shading keeps an edge sharp
+  creaseAngle: number
+  lights: Light[]
+  // Corner normals for smooth and crease shading (see shadingNormals), to share across
+  // frames of the same mesh; worked out from the mesh when null
+  normals: Float32Array | null
+  // Fraction of the image left empty on each side
+  padding: number
+  backFaceCulling: boolean
+  // Fixed framing, e.g. to keep the scale steady across animation frames; fitted per camera when null
+  framing: Framing | null
+  // Facets and edges to pick out in another colour, e.g. mesh defects
+  highlight: Highlight | null
+}
+
+export interface Highlight {
+  color: RGB
+  // 1 for each highlighted triangle. These are drawn from both sides.
+  triangles: Uint8Array
+  // Pairs of vertex indices, drawn as lines over the model
+  edges: Uint32Array
+}
+
+// Maps projected coordinates onto the image: pixel = image centre + (projected - center) * scale
+export interface Framing {
+  scale: number
+  centerX: number
+  centerY: number
+}
+
+export const DEFAULT_RASTER_OPTIONS: RasterOptions = {
+  width: 512,
+  height: 512,
+  background: [255, 255, 255],
+  modelColor: [150, 150, 150],
+  edgeColor: null,
+  shading: "flat",
+  creaseAngle: 30,
+  lights: THREE_POINT_LIGHTS,
+  normals: null,
+  padding: 0.1,
+  backFaceCulling: true,
+  framing: null,
+  highlight: null,
+}
+
+const AMBIENT = 0.2
+const SPECULAR = 0.25
+const SHININESS = 32
+
+// Lets edges win the depth test against the facet they belong to
+const EDGE_DEPTH_BIAS = 1e-5
+
+// Highlighted edges are not tied to one facet's plane, so they need more slack
+const HIGHLIGHT_DEPTH_BIAS = 2e-3
+
+// Render triangles into an RGBA buffer using a z-buffered scanline rasterizer.
+// Vertices go through the camera's look-at and projection matrices, then the
+// projected model is scaled to fit the image. Facets are lit with Lambert diffuse
+// plus a Blinn-Phong highlight from each light, which move with the camera; smooth
+// shading lights each corner from its vertex normal and blends across the facet.
+// Facets are drawn in their face colour when the mesh has them, otherwise in the
+// average vertex colour of their corners or the model colour. Meshes without
+// facets are drawn as point clouds.
+export function rasterize(mesh: Mesh, camera: Camera, options: Partial<RasterOptions> = {}): Uint8Array {
+  const {
+    width,
+    height,
+    background,
+    modelColor,
+    edgeColor,
+    shading,
+    creaseAngle,
+    lights,
+    normals,
+    padding,
+    backFaceCulling,
+    framing,
+    highlight,
+  } = {
+    ...DEFAULT_RASTER_OPTIONS,
+    ...options,
+  }
+
+  const pixels = new Uint8Array(width * height * 4)
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = background[0]
+    pixels[i + 1] = background[1]
+    pixels[i + 2] = background[2]
+    pixels[i + 3] = 255
+  }
+
+  const depthBuffer = new Float32Array(width * height).fill(Number.POSITIVE_INFINITY)
+
+  const bounds = computeBounds(mesh)
+  const { viewMatrix, project } = createProjector(camera, bounds)
+  const right: Vec3 = [viewMatrix[0], viewMatrix[1], viewMatrix[2]]
+  const up: Vec3 = [viewMatrix[4], viewMatrix[5], viewMatrix[6]]
+  const backward: Vec3 = [viewMatrix[8], viewMatrix[9], viewMatrix[10]]
+  const isPerspective = camera.projection.type === "perspective"
+
+  const { scale: fitScale, centerX, centerY } = framing ?? fitFraming(camera, bounds, width, height, padding)
+  const pixelScale = fitScale * (camera.zoom ?? 1)
+
+  const worldLights = lights.map(({ direction: [x, y, z], intensity }): Light => ({
+    direction: normalize([
+      x * right[0] + y * up[0] + z * backward[0],
+      x * right[1] + y * up[1] + z * backward[1],
+      x * right[2] + y * up[2] + z * backward[2],
+    ]),
+    intensity,
+  }))
+  const vertexNormals = normals ?? shadingNormals(mesh, shading, creaseAngle)
+
+  const screen = new Float64Array(9)
+  const cornerColors = new Float64Array(9)
+  const corners = [0, 0, 0]
+  const colors = mesh.colors
+  const faceColors = mesh.faceColors
+  const coloredFaces = mesh.coloredFaces
+  const count = triangleCount(mesh)
+  let trianglesDrawn = 0
+
+  triangleLoop: for (let triangle = 0; triangle < count; triangle++) {
+    corners[0] = cornerVertex(mesh, triangle, 0)
+    corners[1] = cornerVertex(mesh, triangle, 1)
+    corners[2] = cornerVertex(mesh, triangle, 2)
+    const a = vertexPosition(mesh, corners[0])
+    const b = vertexPosition(mesh, corners[1])
+    const c = vertexPosition(mesh, corners[2])
+
+    let normal = normalize(cross(subtract(b, a), subtract(c, a)))
+    if (normal[0] === 0 && normal[1] === 0 && normal[2] === 0) {
+      continue // Degenerate facet
+    }
+
+    const highlighted = highlight !== null && highlight.triangles[triangle] === 1
+    const toViewer = isPerspective ? normalize(subtract(camera.eye, a)) : backward
+    const facing = dot(normal, toViewer) > 0
+    if (!facing) {
+      if (backFaceCulling && !highlighted) {
+        continue
+      }
+      normal = scale(normal, -1)
+    }
+
+    const vertices = [a, b, c]
+    for (let i = 0; i < 3; i++) {
+      const projected = project(vertices[i])
+      if (!projected) {
+        continue triangleLoop // Behind the camera
+      }
+      screen[i * 3] = width / 2 + (projected[0] - centerX) * pixelScale
+      screen[i * 3 + 1] = height / 2 - (projected[1] - centerY) * pixelScale
+      screen[i * 3 + 2] = projected[2]
+    }
+
+    const baseColor: RGB = highlighted
+      ? highlight.color
+      : faceColors && (!coloredFaces || coloredFaces[triangle] === 1)
+        ? [faceColors[triangle * 3], faceColors[triangle * 3 + 1], faceColors[triangle * 3 + 2]]
+        : colors
+          ? [
+              (colors[corners[0] * 3] + colors[corners[1] * 3] + colors[corners[2] * 3]) / 3,
+              (colors[corners[0] * 3 + 1] + colors[corners[1] * 3 + 1] + colors[corners[2] * 3 + 1]) / 3,
+              (colors[corners[0] * 3 + 2] + colors[corners[1] * 3 + 2] + colors[corners[2] * 3 + 2]) / 3,
+            ]
+          : modelColor
+
+    if (vertexNormals) {
+      // Light each corner from its own normal; back faces turn these around with the facet's
+      const sign = facing ? 1 : -1
+      for (let i = 0; i < 3; i++) {
+        const n = triangle * 9 + i * 3
+        const cornerNormal: Vec3 = [sign * vertexNormals[n], sign * vertexNormals[n + 1], sign * vertexNormals[n + 2]]
+        const cornerToViewer = isPerspective ? normalize(subtract(camera.eye, vertices[i])) : backward
+        cornerColors.set(shade(baseColor, cornerNormal, worldLights, cornerToViewer), i * 3)
+      }
+    } else {
+      const color = shading === "unlit" ? baseColor : shade(baseColor, normal, worldLights, toViewer)
+      for (let i = 0; i < 3; i++) {
+        cornerColors.set(color, i * 3)
+      }
+    }
+
+    // Highlighted facets win against coplanar ones, such as the original of a duplicate
+    const depthBias = highlighted ? HIGHLIGHT_DEPTH_BIAS : 0
+    if (fillTriangle(pixels, depthBuffer, width, height, screen, cornerColors, depthBias)) {
+      trianglesDrawn++
+
+      if (edgeColor) {
+        drawEdges(pixels, depthBuffer, width, height, screen, edgeColor)
+      }
+    }
+  }
+
+  // Point clouds have vertices but no facets: draw each vertex as a small square,
+  // lit from its normal when the file has normals
+  let pointsDrawn = 0
+  if (count === 0) {
+    const size = Math.max(2, Math.round(Math.min(width, height) / 256))
+    for (let vertex = 0; vertex < vertexCount(mesh); vertex++) {
+      const position = vertexPosition(mesh, vertex)
+      const projected = project(position)
+      if (!projected) continue
+
+      const baseColor: RGB = colors ? [colors[vertex * 3], colors[vertex * 3 + 1], colors[vertex * 3 + 2]] : modelColor
+      let color = baseColor
+      if (shading !== "unlit" && mesh.normals) {
+        const toViewer = isPerspective ? normalize(subtract(camera.eye, position)) : backward
+        let normal = normalize([mesh.normals[vertex * 3], mesh.normals[vertex * 3 + 1], mesh.normals[vertex * 3 + 2]])
+        if (dot(normal, toViewer) < 0) normal = scale(normal, -1)
+        color = shade(baseColor, normal, worldLights, toViewer)
+      }
+
+      const x = width / 2 + (projected[0] - centerX) * pixelScale
+      const y = height / 2 - (projected[1] - centerY) * pixelScale
+      if (drawPoint(pixels, depthBuffer, width, height, x, y, projected[2], size, color)) {
+        pointsDrawn++
+      }
+    }
+  }
+
+  if (highlight) {
+    for (let i = 0; i < highlight.edges.length; i += 2) {
+      const start = project(vertexPosition(mesh, highlight.edges[i]))
+      const end = project(vertexPosition(mesh, highlight.edges[i + 1]))
+      if (!start || !end) continue
+      drawLine(
+        pixels,
+        depthBuffer,
+        width,
+        height,
+        [width / 2 + (start[0] - centerX) * pixelScale, height / 2 - (start[1] - centerY) * pixelScale, start[2]],
+        [width / 2 + (end[0] - centerX) * pixelScale, height / 2 - (end[1] - centerY) * pixelScale, end[2]],
+        highlight.color,
+      )
+    }
+  }
+
+  console.log(
+    count > 0
+      ? `Rasterized ${trianglesDrawn} of ${count} triangles`
+      : `Rasterized ${pointsDrawn} of ${vertexCount(mesh)} points`,
+  )
+  return pixels
+}
+
+// Corner normals for the smooth shading modes, or null when facets are lit flat.
+// Normals from the file (see Mesh.cornerNormals) already say where the model is
+// smooth and where it has edges, so they are used as given under both modes; only
+// corners without one are worked out from the facets.
+export function shadingNormals(mesh: Mesh, shading: ShadingMode, creaseAngle: number): Float32Array | null {
+  if (shading !== "smooth" && shading !== "crease") return null
+
+  const computed = cornerNormals(mesh, shading === "crease" ? creaseAngle : 180)
+  const given = mesh.cornerNormals
+  if (!given) return computed
+
+  for (let i = 0; i < computed.length; i += 3) {
+    const length = Math.hypot(given[i], given[i + 1], given[i + 2])
+    if (length > 0 && Number.isFinite(length)) {
+      computed[i] = given[i] / length
+      computed[i + 1] = given[i + 1] / length
+      computed[i + 2] = given[i + 2] / length
+    }
+  }
+  return computed
+}
+
+// Lambert diffuse plus a Blinn-Phong highlight for a surface facing the viewer, summed
+// over lights whose directions are already in world space
+function shade(baseColor: RGB, normal: Vec3, lights: Light[], toViewer: Vec3): RGB {
+  let intensity = AMBIENT
+  let specular = 0
+  for (const { direction, intensity: strength } of lights) {
+    const halfway = normalize([direction[0] + toViewer[0], direction[1] + toViewer[1], direction[2] + toViewer[2]])
+    intensity += strength * Math.max(0, dot(normal, direction))
+    specular += strength * SPECULAR * Math.pow(Math.max(0, dot(normal, halfway)), SHININESS)
+  }
+  return [
+    Math.min(255, baseColor[0] * intensity + 255 * specular),
+    Math.min(255, baseColor[1] * intensity + 255 * specular),
+    Math.min(255, baseColor[2] * intensity + 255 * specular),
+  ]
+}
+
+// Build the combined view and projection transform for a camera. Near and far
+// planes hug the model's bounding box, and x and y stay isotropic: fitting the
+// result to the image is left to the framing.
+function createProjector(camera: Camera, bounds: Bounds) {
+  const viewMatrix = lookAt(camera.eye, camera.target, camera.up)
+  const isPerspective = camera.projection.type === "perspective"
+
+  let nearest = Number.POSITIVE_INFINITY,
+    farthest = Number.NEGATIVE_INFINITY
+  for (const corner of boundingBoxCorners(bounds.min, bounds.max)) {
+    const depth = -transformPoint(viewMatrix, corner)[2]
+    nearest = Math.min(nearest, depth)
+    farthest = Math.max(farthest, depth)
+  }
+  const margin = Math.max((farthest - nearest) * 0.01, 1e-6)
+  const far = farthest + margin
+  const near = isPerspective ? Math.max(nearest - margin, far * 1e-4) : nearest - margin
+
+  const projectionMatrix =
+    camera.projection.type === "perspective"
+      ? perspective(camera.projection.fov, 1, near, far)
+      : orthographic(-1, 1, -1, 1, near, far)
+  const matrix = multiply(projectionMatrix, viewMatrix)
+
+  const project = (p: Vec3): Vec3 | null => {
+    const [x, y, z, w] = transformPoint(matrix, p)
+    return w > 0 ? [x / w, y / w, z / w] : null
+  }
+
+  return { viewMatrix, project }
+}
+
+// Fit the projected bounding box of the model into the image, leaving padding on each side
+export function fitFraming(
+  camera: Camera,
+  bounds: Bounds,
+  width: number,
+  height: number,
+  padding: number,
+): Framing {
+  const { project } = createProjector(camera, bounds)
+
+  let minScreenX = Number.POSITIVE_INFINITY,
+    maxScreenX = Number.NEGATIVE_INFINITY
+  let minScreenY = Number.POSITIVE_INFINITY,
+    maxScreenY = Number.NEGATIVE_INFINITY
+  for (const corner of boundingBoxCorners(bounds.min, bounds.max)) {
+    const projected = project(corner)
+    if (!projected) continue
+    minScreenX = Math.min(minScreenX, projected[0])
+    maxScreenX = Math.max(maxScreenX, projected[0])
+    minScreenY = Math.min(minScreenY, projected[1])
+    maxScreenY = Math.max(maxScreenY, projected[1])
+  }
+
+  const extentX = maxScreenX - minScreenX
+  const extentY = maxScreenY - minScreenY
+  const usableWidth = width * (1 - 2 * padding)
+  const usableHeight = height * (1 - 2 * padding)
+  const scale =
+    extentX > 0 || extentY > 0
+      ? Math.min(extentX > 0 ? usableWidth / extentX : Infinity, extentY > 0 ? usableHeight / extentY : Infinity)
+      : 1
+
+  return { scale, centerX: (minScreenX + maxScreenX) / 2, centerY: (minScreenY + maxScreenY) / 2 }
+}
+
+// Fill one screen-space triangle, testing each covered pixel centre against the depth
+// buffer. Colours (r, g, b per corner) are blended across the triangle.
+function fillTriangle(
+  pixels: Uint8Array,
+  depthBuffer: Float32Array,
+  width: number,
+  height: number,
+  screen: Float64Array,
+  colors: Float64Array,
+  depthBias = 0,
+): boolean {
+  const [x0, y0, z0, x1, y1, z1, x2, y2, z2] = screen
+
+  const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0)
+  if (area === 0 || !Number.isFinite(area)) {
+    return false
+  }
+
+  const minX = Math.max(0, Math.floor(Math.min(x0, x1, x2)))
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(x0, x1, x2)))
+  const minY = Math.max(0, Math.floor(Math.min(y0, y1, y2)))
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(y0, y1, y2)))
+
+  let covered = false
+
+  for (let y = minY; y <= maxY; y++) {
+    const py = y + 0.5
+    for (let x = minX; x <= maxX; x++) {
+      const px = x + 0.5
+
+      // Barycentric weights from the edge functions
+      const w0 = ((x1 - px) * (y2 - py) - (x2 - px) * (y1 - py)) / area
+      const w1 = ((x2 - px) * (y0 - py) - (x0 - px) * (y2 - py)) / area
+      const w2 = 1 - w0 - w1
+      if (w0 < 0 || w1 < 0 || w2 < 0) {
+        continue
+      }
+
+      const depth = w0 * z0 + w1 * z1 + w2 * z2 - depthBias
+      const index = y * width + x
+      if (depth >= depthBuffer[index]) {
+        continue
+      }
+
+      depthBuffer[index] = depth
+      pixels[index * 4] = Math.round(w0 * colors[0] + w1 * colors[3] + w2 * colors[6])
+      pixels[index * 4 + 1] = Math.round(w0 * colors[1] + w1 * colors[4] + w2 * colors[7])
+      pixels[index * 4 + 2] = Math.round(w0 * colors[2] + w1 * colors[5] + w2 * colors[8])
+      covered = true
+    }
+  }
+
+  return covered
+}
+
+// Draw the edges of a screen-space triangle. Depth comes from the triangle's own
+// plane at each pixel centre, so the edges pass the depth test against their facet
+// but not against anything in front of it. Edges do not write depth, so facets
+// drawn later in front still cover them.
+function drawEdges(
+  pixels: Uint8Array,
+  depthBuffer: Float32Array,
+  width: number,
+  height: number,
+  screen: Float64Array,
+  color: RGB,
+) {
+  const [x0, y0, z0, x1, y1, z1, x2, y2, z2] = screen
+  const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0)
+  const depthSlopeX = ((z1 - z0) * (y2 - y0) - (z2 - z0) * (y1 - y0)) / area
+  const depthSlopeY = ((z2 - z0) * (x1 - x0) - (z1 - z0) * (x2 - x0)) / area
+
+  for (let from = 0; from < 3; from++) {
+    const to = (from + 1) % 3
+    const startX = screen[from * 3],
+      startY = screen[from * 3 + 1]
+    const endX = screen[to * 3],
+      endY = screen[to * 3 + 1]
+
+    const steps = Math.ceil(Math.max(Math.abs(endX - startX), Math.abs(endY - startY)))
+    for (let step = 0; step <= steps; step++) {
+      const t = steps > 0 ? step / steps : 0
+      const x = Math.floor(startX + (endX - startX) * t)
+      const y = Math.floor(startY + (endY - startY) * t)
+      if (x < 0 || y < 0 || x >= width || y >= height) {
+        continue
+      }
+
+      const index = y * width + x
+      const depth = z0 + depthSlopeX * (x + 0.5 - x0) + depthSlopeY * (y + 0.5 - y0)
+      if (depth > depthBuffer[index] + EDGE_DEPTH_BIAS) {
+        continue
+      }
+
+      pixels[index * 4] = color[0]
+      pixels[index * 4 + 1] = color[1]
+      pixels[index * 4 + 2] = color[2]
+    }
+  }
+}
+
+// Draw a two pixel wide line with depth interpolated between its ends, so lines
+// along the visible surface show and those behind it stay hidden
+function drawLine(
+  pixels: Uint8Array,
+  depthBuffer: Float32Array,
+  width: number,
+  height: number,
+  start: Vec3,
+  end: Vec3,
+  color: RGB,
+) {
+  const steps = Math.max(1, Math.ceil(Math.max(Math.abs(end[0] - start[0]), Math.abs(end[1] - start[1]))))
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps
+    const centerX = start[0] + (end[0] - start[0]) * t
+    const centerY = start[1] + (end[1] - start[1]) * t
+    const depth = start[2] + (end[2] - start[2]) * t
+
+    for (let y = Math.floor(centerY - 0.5); y <= Math.floor(centerY + 0.5); y++) {
+      for (let x = Math.floor(centerX - 0.5); x <= Math.floor(centerX + 0.5); x++) {
+        if (x < 0 || y < 0 || x >= width || y >= height) continue
+        const index = y * width + x
+        if (depth > depthBuffer[index] + HIGHLIGHT_DEPTH_BIAS) continue
+        pixels[index * 4] = color[0]
+        pixels[index * 4 + 1] = color[1]
+        pixels[index * 4 + 2] = color[2]
+      }
+    }
+  }
+}
+
+// Fill a size x size square centred on a projected point, depth tested at the point's depth
+function drawPoint(
+  pixels: Uint8Array,
+  depthBuffer: Float32Array,
+  width: number,
+  height: number,
+  centerX: number,
+  centerY: number,
+  depth: number,
+  size: number,
+  color: RGB,
+): boolean {
+  const left = Math.floor(centerX - size / 2)
+  const top = Math.floor(centerY - size / 2)
+  let covered = false
+
+  for (let y = Math.max(0, top); y < Math.min(height, top + size); y++) {
+    for (let x = Math.max(0, left); x < Math.min(width, left + size); x++) {
+      const index = y * width + x
+      if (depth >= depthBuffer[index]) continue
+      depthBuffer[index] = depth
+      pixels[index * 4] = Math.round(color[0])
+      pixels[index * 4 + 1] = Math.round(color[1])
+      pixels[index * 4 + 2] = Math.round(color[2])
+      covered = true
+    }
+  }
+
+  return covered
+}
+
+function boundingBoxCorners(min: Vec3, max: Vec3): Vec3[] {
+  const corners: Vec3[] = []
+  for (const x of [min[0], max[0]]) {
+    for (const y of [min[1], max[1]]) {
+      for (const z of [min[2], max[2]]) {
+        corners.push([x, y, z])
+      }
+    }
+  }
+  return corners
+}
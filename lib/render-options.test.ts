@@ -0,0 +1,64 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseRenderOptions } from "@/lib/render-options"
+
+function parseQuery(query: string) {
+  return parseRenderOptions(new URLSearchParams(query), new FormData())
+}
+
+test("upAxis from a query string keeps its sign when + decodes to a space", () => {
+  const result = parseQuery("upAxis=+Y")
+  assert.ok(result.success)
+  assert.equal(result.options.upAxis, "+Y")
+})
+
+test("upAxis accepts an encoded sign, a missing sign and lower case", () => {
+  for (const [query, axis] of [
+    ["upAxis=%2BX", "+X"],
+    ["upAxis=-z", "-Z"],
+    ["upAxis=y", "+Y"],
+  ]) {
+    const result = parseQuery(query)
+    assert.ok(result.success, query)
+    assert.equal(result.options.upAxis, axis)
+  }
+})
+
+test("upAxis rejects anything that is not an axis", () => {
+  const result = parseQuery("upAxis=W")
+  assert.ok(!result.success)
+  assert.ok(result.fieldErrors.upAxis)
+})
+
+test("unrelated query parameters are ignored", () => {
+  const result = parseQuery("cb=123&width=256")
+  assert.ok(result.success)
+  assert.equal(result.options.width, 256)
+})
+
+test("unknown keys in the JSON options are still rejected", () => {
+  const formData = new FormData()
+  formData.set("options", JSON.stringify({ cb: 123 }))
+  const result = parseRenderOptions(new URLSearchParams(), formData)
+  assert.ok(!result.success)
+  assert.deepEqual(result.fieldErrors.cb, ["Unknown option"])
+})
+
+test("upAxis is left to the model format unless given", () => {
+  const result = parseQuery("")
+  assert.ok(result.success)
+  assert.equal(result.options.upAxis, undefined)
+})
+
+test("form fields named after options are merged under the JSON options", () => {
+  const formData = new FormData()
+  formData.set("upAxis", "Z")
+  formData.set("width", "128")
+  formData.set("height", "")
+  formData.set("note", "not an option")
+  formData.set("options", JSON.stringify({ width: 256 }))
+  const result = parseRenderOptions(new URLSearchParams("upAxis=X"), formData)
+  assert.ok(result.success)
+  assert.equal(result.options.upAxis, "+Z")
+  assert.equal(result.options.width, 256)
+})
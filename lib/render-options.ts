@@ -0,0 +1,286 @@
+import { z } from "zod"
+import { DEFAULT_PERSPECTIVE_FOV } from "@/lib/camera"
+import { SHADING_MODES, THREE_POINT_LIGHTS, type RGB } from "@/lib/rasterizer"
+import { spriteColumns } from "@/lib/sprite-sheet"
+import { UP_AXES } from "@/lib/up-axis"
+import { generateViews, type CustomViewSpec } from "@/lib/views"
+
+export const IMAGE_FORMATS = ["png", "jpeg"] as const
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number]
+
+export const ANIMATION_FORMATS = ["gif", "apng"] as const
+
+export type AnimationFormat = (typeof ANIMATION_FORMATS)[number]
+
+export const RESPONSE_FORMATS = ["json", "zip"] as const
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number]
+
+function parseHexColor(value: string): RGB {
+  let hex = value.replace(/^#/, "")
+  if (hex.length === 3) {
+    hex = hex
+      .split("")
+      .map((digit) => digit + digit)
+      .join("")
+  }
+  return [Number.parseInt(hex.slice(0, 2), 16), Number.parseInt(hex.slice(2, 4), 16), Number.parseInt(hex.slice(4, 6), 16)]
+}
+
+const hexColor = z
+  .string()
+  .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, "Expected a hex colour such as #ff8800")
+  .transform(parseHexColor)
+
+// Query parameters arrive as comma separated strings, JSON options as arrays
+const commaSeparated = (value: unknown) =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item !== "")
+    : value
+
+const viewName = z.string().refine((name) => generateViews().some((view) => view.name === name), {
+  message: "Unknown view name",
+})
+
+const vector3 = z.tuple([z.number(), z.number(), z.number()])
+
+const customViewFields = {
+  name: z.string().min(1).max(64),
+  description: z.string().max(200).optional(),
+  up: vector3.optional(),
+  roll: z.number().default(0),
+  zoom: z.number().positive().max(100).default(1),
+  projection: z.enum(["orthographic", "perspective"]).default("orthographic"),
+  fov: z.number().min(1).max(170).default(DEFAULT_PERSPECTIVE_FOV),
+}
+
+const orbitViewSchema = z
+  .object({
+    ...customViewFields,
+    azimuth: z.number(),
+    elevation: z.number().min(-90).max(90),
+  })
+  .strict()
+
+const explicitViewSchema = z
+  .object({
+    ...customViewFields,
+    eye: vector3,
+    target: vector3.optional(),
+  })
+  .strict()
+
+// Each entry is a preset name, an orbit camera or an explicit eye/target camera.
+// Picking the schema from the shape up front keeps the error messages specific.
+const viewSpec = z.unknown().transform((value, ctx): string | CustomViewSpec => {
+  const schema =
+    typeof value === "string"
+      ? viewName
+      : typeof value === "object" && value !== null && "eye" in value
+        ? explicitViewSchema
+        : orbitViewSchema
+
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue(issue)
+    }
+    return z.NEVER
+  }
+
+  return result.data
+})
+
+// Nested options can also arrive as a JSON string in a query parameter
+const jsonString = (value: unknown) => {
+  if (typeof value !== "string") return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+// "+" in a query string decodes to a space, so "?upAxis=+Y" arrives as " Y"; an
+// axis without a sign is taken as positive
+const upAxis = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toUpperCase().replace(/^(?=[XYZ]$)/, "+") : value),
+  z.enum(UP_AXES),
+)
+
+// Directions are relative to the camera, so lighting follows each view (see Light)
+const lightSchema = z
+  .object({
+    direction: vector3.refine((vector) => vector.some((value) => value !== 0), "Expected a non-zero direction"),
+    intensity: z.number().min(0).max(4).default(1),
+  })
+  .strict()
+
+// Reject files with validation warnings (see STLWarning) instead of using what could be read
+export const strictOptionSchema = z.preprocess(jsonString, z.boolean()).default(false)
+
+const turntableSchema = z
+  .object({
+    frames: z.number().int().min(2).max(360).default(36),
+    delay: z.number().int().min(20).max(10000).default(100),
+    loop: z.number().int().min(0).max(65535).default(0),
+    elevation: z.number().min(-90).max(90).default(20),
+    axis: upAxis.optional(),
+    format: z.enum(ANIMATION_FORMATS).default("gif"),
+  })
+  .strict()
+
+// `true` asks for a sheet with the default layout
+const spriteSheetSchema = z.preprocess(
+  (value) => (value === true || value === "true" ? {} : value === false || value === "false" ? undefined : jsonString(value)),
+  z
+    .object({
+      columns: z.number().int().min(1).max(64).optional(),
+    })
+    .strict()
+    .optional(),
+)
+
+// Largest sprite sheet edge in pixels
+const MAX_SPRITE_SHEET_SIZE = 16384
+
+// Animations keep every frame in memory until they are encoded
+const MAX_ANIMATION_PIXELS = 64 * 1024 * 1024
+
+export const renderOptionsSchema = z
+  .object({
+    width: z.coerce.number().int().min(16).max(4096).default(512),
+    height: z.coerce.number().int().min(16).max(4096).default(512),
+    views: z.preprocess(commaSeparated, z.array(viewSpec).min(1).max(64)).optional(),
+    background: hexColor.default("#ffffff"),
+    modelColor: hexColor.default("#969696"),
+    // Edges are only drawn when a colour is given; "none" or an empty string turns them off
+    edgeColor: z.preprocess((value) => (value === "" || value === "none" ? null : value), hexColor.nullable()).default(null),
+    padding: z.coerce.number().min(0).max(0.45).default(0.1),
+    shading: z.enum(SHADING_MODES).default("flat"),
+    // Facets meeting at more than this many degrees keep a sharp edge under "crease" shading
+    creaseAngle: z.coerce.number().min(0).max(180).default(30),
+    // Replace the default three-point lighting
+    lights: z.preprocess(jsonString, z.array(lightSchema).min(1).max(8)).default(THREE_POINT_LIGHTS),
+    imageFormat: z.enum(IMAGE_FORMATS).default("png"),
+    quality: z.coerce.number().int().min(1).max(100).default(90),
+    // Follows the model's format when unset (see defaultUpAxis)
+    upAxis: upAxis.optional(),
+    // Draw mesh defects (open, non-manifold and misoriented edges, degenerate and duplicate facets) in red
+    highlightProblems: z.preprocess(jsonString, z.boolean()).default(false),
+    // Paint each connected part in its own palette colour
+    colorShells: z.preprocess(jsonString, z.boolean()).default(false),
+    // Vertices closer than this (in model units) are merged; scales with the model when unset
+    weldEpsilon: z.coerce.number().min(0).optional(),
+    strict: strictOptionSchema,
+    // Render a spinning animation instead of still views
+    turntable: z.preprocess(jsonString, turntableSchema.optional()),
+    // Pack the turntable frames or the views into one image plus a manifest
+    spriteSheet: spriteSheetSchema,
+    // "zip" streams the images as files in an archive instead of data URLs in JSON
+    format: z.enum(RESPONSE_FORMATS).default("json"),
+  })
+  .strict()
+  .superRefine((options, ctx) => {
+    if (options.turntable && options.turntable.frames * options.width * options.height > MAX_ANIMATION_PIXELS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["turntable", "frames"],
+        message: `Too many frames for a ${options.width}x${options.height} animation`,
+      })
+    }
+
+    if (options.spriteSheet) {
+      const frameCount = options.turntable?.frames ?? options.views?.length ?? generateViews().length
+      const columns = spriteColumns(frameCount, options.spriteSheet.columns)
+      const rows = Math.ceil(frameCount / columns)
+      if (columns * options.width > MAX_SPRITE_SHEET_SIZE || rows * options.height > MAX_SPRITE_SHEET_SIZE) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["spriteSheet"],
+          message: `Sprite sheet would exceed ${MAX_SPRITE_SHEET_SIZE} pixels on a side`,
+        })
+      }
+    }
+  })
+
+export type RenderOptions = z.infer<typeof renderOptionsSchema>
+
+export type FieldErrors = Record<string, string[]>
+
+export type ParsedOptions<T> = { success: true; options: T } | { success: false; fieldErrors: FieldErrors }
+
+export type RenderOptionsResult = ParsedOptions<RenderOptions>
+
+export function collectFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+  const add = (field: string, message: string) => {
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), message]
+  }
+
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        add([...issue.path, key].join("."), "Unknown option")
+      }
+    } else {
+      add(issue.path.length > 0 ? issue.path.join(".") : "options", issue.message)
+    }
+  }
+
+  return fieldErrors
+}
+
+// Option names a schema knows, looking through refinements to the object underneath
+function optionKeys(schema: z.ZodTypeAny): string[] {
+  if (schema instanceof z.ZodEffects) return optionKeys(schema.innerType())
+  return schema instanceof z.ZodObject ? Object.keys(schema.shape) : []
+}
+
+// Merge query parameters, form fields named after options (such as the legacy
+// "upAxis" field) and the JSON "options" form field, in increasing priority, and
+// validate the result. The query string and the form are shared with whatever else
+// the client sends, such as cache busters and the model itself, so only known options
+// are taken from them; unknown keys in the JSON options are still rejected.
+export function parseRequestOptions<T extends z.ZodTypeAny>(
+  schema: T,
+  searchParams: URLSearchParams,
+  formData: FormData,
+): ParsedOptions<z.output<T>> {
+  const keys = optionKeys(schema)
+  const query = [...searchParams].filter(([key]) => keys.includes(key))
+  // An empty field is a form control left blank
+  const fields = [...formData].filter(([key, value]) => keys.includes(key) && typeof value === "string" && value !== "")
+  const raw: Record<string, unknown> = { ...Object.fromEntries(query), ...Object.fromEntries(fields) }
+
+  const optionsField = formData.get("options")
+  if (typeof optionsField === "string" && optionsField.trim() !== "") {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(optionsField)
+    } catch {
+      return { success: false, fieldErrors: { options: ["Expected a JSON object"] } }
+    }
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { success: false, fieldErrors: { options: ["Expected a JSON object"] } }
+    }
+
+    Object.assign(raw, parsed)
+  }
+
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    return { success: false, fieldErrors: collectFieldErrors(result.error) }
+  }
+
+  return { success: true, options: result.data }
+}
+
+export function parseRenderOptions(searchParams: URLSearchParams, formData: FormData): RenderOptionsResult {
+  return parseRequestOptions(renderOptionsSchema, searchParams, formData)
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import type { Mesh } from "@/lib/mesh"
+import { repairMesh } from "@/lib/repair"
+import { weldVertices } from "@/lib/weld"
+
+// Unit cube corners, and its twelve facets wound to face outwards
+const CORNERS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+]
+const FACETS = [
+  [0, 2, 1], [0, 3, 2], [4, 5, 6], [4, 6, 7],
+  [0, 1, 5], [0, 5, 4], [2, 3, 7], [2, 7, 6],
+  [1, 2, 6], [1, 6, 5], [0, 4, 7], [0, 7, 3],
+]
+
+function cube(facets: number[][]): Mesh {
+  const positions = facets.flatMap((facet) => facet.flatMap((corner) => CORNERS[corner]))
+  return weldVertices({ positions: new Float32Array(positions) })
+}
+
+test("a missing side is filled and the cube comes out closed", () => {
+  const { mesh, report } = repairMesh(cube(FACETS.slice(2)))
+  assert.equal(report.before.closed, false)
+  assert.equal(report.filledHoles, 1)
+  assert.equal(report.addedFacets, 2)
+  assert.equal(report.after.closed, true)
+  assert.equal(mesh.indices?.length, 12 * 3)
+})
+
+test("a facet wound against its neighbours is flipped and a duplicate is dropped", () => {
+  const facets = [[0, 1, 2], ...FACETS.slice(1), FACETS[5]]
+  const { report } = repairMesh(cube(facets))
+  assert.equal(report.flippedFacets, 1)
+  assert.equal(report.removedDuplicateFacets, 1)
+  assert.equal(report.after.inconsistentWinding.count, 0)
+  assert.equal(report.after.closed, true)
+})
@@ -0,0 +1,311 @@
+import { z } from "zod"
+import { buildEdgeAdjacency, edgeValence, type EdgeAdjacency } from "@/lib/adjacency"
+import { diagnoseMesh, findMeshProblems, type MeshDiagnostics } from "@/lib/diagnostics"
+import { cornerVertex, ensureCapacity, triangleCount, vertexPosition, type Mesh } from "@/lib/mesh"
+import { RESPONSE_FORMATS, strictOptionSchema } from "@/lib/render-options"
+import { cross, dot, normalize, subtract, type Vec3 } from "@/lib/vector"
+
+// Holes with more sides than this are left open
+const MAX_HOLE_EDGES = 500
+
+// A hole is planar when no corner is further from its best-fit plane than this
+// fraction of the hole's size
+const PLANAR_TOLERANCE = 0.01
+
+export const repairOptionsSchema = z
+  .object({
+    // Vertices closer than this (in model units) are merged before repairing; scales with the model when unset
+    weldEpsilon: z.coerce.number().min(0).optional(),
+    // "json" returns the STL as a data URL next to the report, "zip" streams both as files
+    format: z.enum(RESPONSE_FORMATS).default("json"),
+    strict: strictOptionSchema,
+  })
+  .strict()
+
+export interface RepairReport {
+  removedDegenerateFacets: number
+  removedDuplicateFacets: number
+  // Original facets whose winding was reversed to agree with their neighbours or face outwards
+  flippedFacets: number
+  filledHoles: number
+  addedFacets: number
+  // Boundary loops that were not planar, too large or not simple
+  unfilledHoles: number
+  // Every facet normal in the output is recomputed from its vertex winding
+  recomputedNormals: number
+  before: MeshDiagnostics
+  after: MeshDiagnostics
+}
+
+// True when the triangle's corners run from u straight to v
+function runsFrom(indices: Uint32Array, triangle: number, u: number, v: number): boolean {
+  for (let corner = 0; corner < 3; corner++) {
+    if (indices[triangle * 3 + corner] === u && indices[triangle * 3 + ((corner + 1) % 3)] === v) {
+      return true
+    }
+  }
+  return false
+}
+
+function flipTriangle(indices: Uint32Array, triangle: number) {
+  const swap = indices[triangle * 3 + 1]
+  indices[triangle * 3 + 1] = indices[triangle * 3 + 2]
+  indices[triangle * 3 + 2] = swap
+}
+
+// Flood fill across manifold edges, reversing each newly reached facet that runs
+// along the shared edge in the same direction as the facet it was reached from
+function unifyWinding(indices: Uint32Array, adjacency: EdgeAdjacency, flipped: Uint8Array) {
+  const triangles = indices.length / 3
+  const visited = new Uint8Array(triangles)
+  const queue = new Uint32Array(triangles)
+
+  for (let seed = 0; seed < triangles; seed++) {
+    if (visited[seed]) continue
+    visited[seed] = 1
+    let head = 0,
+      tail = 0
+    queue[tail++] = seed
+
+    while (head < tail) {
+      const triangle = queue[head++]
+      for (let side = 0; side < 3; side++) {
+        const edge = adjacency.triangleEdges[triangle * 3 + side]
+        if (edgeValence(adjacency, edge) !== 2) continue
+
+        const offset = adjacency.edgeOffsets[edge]
+        const first = adjacency.edgeTriangles[offset]
+        const neighbour = first === triangle ? adjacency.edgeTriangles[offset + 1] : first
+        if (visited[neighbour]) continue
+
+        const u = adjacency.edges[edge * 2],
+          v = adjacency.edges[edge * 2 + 1]
+        if (runsFrom(indices, triangle, u, v) === runsFrom(indices, neighbour, u, v)) {
+          flipTriangle(indices, neighbour)
+          flipped[neighbour] ^= 1
+        }
+        visited[neighbour] = 1
+        queue[tail++] = neighbour
+      }
+    }
+  }
+}
+
+// Boundary loops, each oriented against the facets along it so that a fan across
+// the loop in loop order matches their winding. Loops through a vertex with more
+// than one open edge leaving it are not simple and are dropped.
+function boundaryLoops(indices: Uint32Array, adjacency: EdgeAdjacency): { loops: number[][]; skipped: number } {
+  const next = new Map<number, number>()
+  const branching = new Set<number>()
+
+  for (let edge = 0; edge < adjacency.edges.length / 2; edge++) {
+    if (edgeValence(adjacency, edge) !== 1) continue
+    const triangle = adjacency.edgeTriangles[adjacency.edgeOffsets[edge]]
+    let u = adjacency.edges[edge * 2],
+      v = adjacency.edges[edge * 2 + 1]
+    if (!runsFrom(indices, triangle, u, v)) [u, v] = [v, u]
+
+    // The facet runs u -> v, so the hole runs v -> u
+    if (next.has(v)) branching.add(v)
+    next.set(v, u)
+  }
+
+  const loops: number[][] = []
+  const used = new Set<number>()
+  let skipped = 0
+
+  for (const start of next.keys()) {
+    if (used.has(start)) continue
+
+    const loop: number[] = []
+    let vertex: number | undefined = start
+    let simple = true
+    while (vertex !== undefined && !used.has(vertex)) {
+      used.add(vertex)
+      loop.push(vertex)
+      if (branching.has(vertex)) simple = false
+      vertex = next.get(vertex)
+    }
+
+    if (simple && vertex === start && loop.length >= 3 && loop.length <= MAX_HOLE_EDGES) {
+      loops.push(loop)
+    } else {
+      skipped++
+    }
+  }
+
+  return { loops, skipped }
+}
+
+// Triangulate a planar loop by ear clipping in the loop's own plane. Returns null
+// when the loop is not planar or not a simple polygon.
+function triangulateHole(mesh: Mesh, loop: number[]): number[] | null {
+  const points = loop.map((vertex) => vertexPosition(mesh, vertex))
+
+  // Newell's method: a normal that follows the loop's orientation
+  const normal: Vec3 = [0, 0, 0]
+  const center: Vec3 = [0, 0, 0]
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i],
+      q = points[(i + 1) % points.length]
+    normal[0] += (p[1] - q[1]) * (p[2] + q[2])
+    normal[1] += (p[2] - q[2]) * (p[0] + q[0])
+    normal[2] += (p[0] - q[0]) * (p[1] + q[1])
+    center[0] += p[0] / points.length
+    center[1] += p[1] / points.length
+    center[2] += p[2] / points.length
+  }
+
+  const n = normalize(normal)
+  if (n[0] === 0 && n[1] === 0 && n[2] === 0) return null
+
+  const size = Math.max(...points.map((p) => Math.hypot(...subtract(p, center))))
+  if (points.some((p) => Math.abs(dot(subtract(p, center), n)) > PLANAR_TOLERANCE * size)) return null
+
+  // 2D coordinates in the plane, with the loop running counter-clockwise
+  const axisU = normalize(cross(Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0], n))
+  const axisV = cross(n, axisU)
+  const flat = points.map((p) => [dot(subtract(p, center), axisU), dot(subtract(p, center), axisV)])
+
+  const crossAt = (a: number, b: number, c: number) =>
+    (flat[b][0] - flat[a][0]) * (flat[c][1] - flat[a][1]) - (flat[b][1] - flat[a][1]) * (flat[c][0] - flat[a][0])
+
+  const remaining = loop.map((_, i) => i)
+  const triangles: number[] = []
+
+  while (remaining.length > 3) {
+    let clipped = false
+    for (let i = 0; i < remaining.length; i++) {
+      const a = remaining[(i + remaining.length - 1) % remaining.length]
+      const b = remaining[i]
+      const c = remaining[(i + 1) % remaining.length]
+      if (crossAt(a, b, c) <= 0) continue // Reflex corner
+
+      const containsOther = remaining.some(
+        (p) => p !== a && p !== b && p !== c && crossAt(a, b, p) >= 0 && crossAt(b, c, p) >= 0 && crossAt(c, a, p) >= 0,
+      )
+      if (containsOther) continue
+
+      triangles.push(loop[a], loop[b], loop[c])
+      remaining.splice(i, 1)
+      clipped = true
+      break
+    }
+
+    if (!clipped) return null // Self-intersecting
+  }
+
+  if (crossAt(remaining[0], remaining[1], remaining[2]) <= 0) return null
+  triangles.push(loop[remaining[0]], loop[remaining[1]], loop[remaining[2]])
+  return triangles
+}
+
+// Reverse closed shells whose signed volume is negative, i.e. that face inwards
+function orientShells(mesh: Mesh, indices: Uint32Array, adjacency: EdgeAdjacency, flipped: Uint8Array) {
+  const triangles = indices.length / 3
+  const visited = new Uint8Array(triangles)
+  const queue = new Uint32Array(triangles)
+
+  for (let seed = 0; seed < triangles; seed++) {
+    if (visited[seed]) continue
+    visited[seed] = 1
+    let head = 0,
+      tail = 0
+    queue[tail++] = seed
+    let closed = true
+    let volume = 0
+
+    while (head < tail) {
+      const triangle = queue[head++]
+      const [a, b, c] = [0, 1, 2].map((corner) => vertexPosition(mesh, indices[triangle * 3 + corner]))
+      volume += dot(a, cross(b, c)) / 6
+
+      for (let side = 0; side < 3; side++) {
+        const edge = adjacency.triangleEdges[triangle * 3 + side]
+        if (edgeValence(adjacency, edge) !== 2) closed = false
+        for (let i = adjacency.edgeOffsets[edge]; i < adjacency.edgeOffsets[edge + 1]; i++) {
+          const neighbour = adjacency.edgeTriangles[i]
+          if (!visited[neighbour]) {
+            visited[neighbour] = 1
+            queue[tail++] = neighbour
+          }
+        }
+      }
+    }
+
+    if (closed && volume < 0) {
+      for (let i = 0; i < tail; i++) {
+        flipTriangle(indices, queue[i])
+        flipped[queue[i]] ^= 1
+      }
+    }
+  }
+}
+
+// Fix what can be fixed automatically on an indexed mesh (see weldVertices)
+export function repairMesh(mesh: Mesh, adjacency = buildEdgeAdjacency(mesh)): { mesh: Mesh; report: RepairReport } {
+  const problems = findMeshProblems(mesh, adjacency)
+  const before = diagnoseMesh(mesh, adjacency, problems)
+
+  // Drop degenerate and duplicate facets
+  const removed = new Uint8Array(triangleCount(mesh))
+  for (const triangle of [...problems.degenerateTriangles, ...problems.duplicateTriangles]) {
+    removed[triangle] = 1
+  }
+
+  const originalCount = triangleCount(mesh) - problems.degenerateTriangles.length - problems.duplicateTriangles.length
+  let indices = new Uint32Array(originalCount * 3)
+  let length = 0
+  for (let triangle = 0; triangle < removed.length; triangle++) {
+    if (removed[triangle]) continue
+    for (let corner = 0; corner < 3; corner++) {
+      indices[length++] = cornerVertex(mesh, triangle, corner)
+    }
+  }
+
+  const flipped = new Uint8Array(originalCount)
+  unifyWinding(indices, buildEdgeAdjacency({ positions: mesh.positions, indices }), flipped)
+
+  // Close simple planar holes with facets that follow the surrounding winding
+  const { loops, skipped } = boundaryLoops(indices, buildEdgeAdjacency({ positions: mesh.positions, indices }))
+  let filledHoles = 0
+  let unfilledHoles = skipped
+  for (const loop of loops) {
+    const fill = triangulateHole(mesh, loop)
+    if (!fill) {
+      unfilledHoles++
+      continue
+    }
+    indices = ensureCapacity(indices, length + fill.length)
+    indices.set(fill, length)
+    length += fill.length
+    filledHoles++
+  }
+  indices = indices.slice(0, length)
+
+  // Fill facets can be reversed with their shell too, but only original facets are counted
+  const shellFlips = new Uint8Array(length / 3)
+  orientShells(mesh, indices, buildEdgeAdjacency({ positions: mesh.positions, indices }), shellFlips)
+  for (let triangle = 0; triangle < originalCount; triangle++) {
+    flipped[triangle] ^= shellFlips[triangle]
+  }
+
+  const repaired: Mesh = { positions: mesh.positions, colors: mesh.colors, indices }
+  const repairedAdjacency = buildEdgeAdjacency(repaired)
+  const after = diagnoseMesh(repaired, repairedAdjacency, findMeshProblems(repaired, repairedAdjacency))
+
+  return {
+    mesh: repaired,
+    report: {
+      removedDegenerateFacets: problems.degenerateTriangles.length,
+      removedDuplicateFacets: problems.duplicateTriangles.length,
+      flippedFacets: flipped.reduce((sum, value) => sum + value, 0),
+      filledHoles,
+      addedFacets: length / 3 - originalCount,
+      unfilledHoles,
+      recomputedNormals: length / 3,
+      before,
+      after,
+    },
+  }
+}
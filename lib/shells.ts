@@ -0,0 +1,143 @@
+import { cornerVertex, triangleCount, vertexCount, type Bounds, type Mesh } from "@/lib/mesh"
+import type { RGB } from "@/lib/rasterizer"
+import type { Vec3 } from "@/lib/vector"
+
+// Tableau 10: distinct hues that stay apart under flat shading
+export const SHELL_PALETTE: RGB[] = [
+  [78, 121, 167],
+  [242, 142, 43],
+  [225, 87, 89],
+  [118, 183, 178],
+  [89, 161, 79],
+  [237, 201, 72],
+  [176, 122, 161],
+  [255, 157, 167],
+  [156, 117, 95],
+  [186, 176, 172],
+]
+
+export interface ShellInfo {
+  index: number
+  triangles: number
+  bounds: Bounds
+  dimensions: Vec3
+  // Signed, as for the whole mesh; only meaningful when the shell is closed
+  volume: number
+  // Palette colour used when shells are coloured
+  color: string
+}
+
+export interface Shells {
+  count: number
+  // Shell index of every vertex
+  vertexShells: Uint32Array
+}
+
+function hex(color: RGB): string {
+  return `#${color.map((channel) => channel.toString(16).padStart(2, "0")).join("")}`
+}
+
+// Split an indexed mesh (see weldVertices) into connected parts: facets that share
+// a vertex belong to the same shell. Meshes that come in parts (see Mesh.parts) get
+// one shell per part instead. Shells are numbered in order of their first facet.
+export function findShells(mesh: Mesh): Shells {
+  const vertices = vertexCount(mesh)
+  const parent = new Int32Array(vertices)
+  for (let vertex = 0; vertex < vertices; vertex++) parent[vertex] = vertex
+
+  const root = (vertex: number): number => {
+    while (parent[vertex] !== vertex) {
+      parent[vertex] = parent[parent[vertex]] // Path halving
+      vertex = parent[vertex]
+    }
+    return vertex
+  }
+
+  const triangles = triangleCount(mesh)
+  const partVertex = new Map<number, number>()
+  for (let triangle = 0; triangle < triangles; triangle++) {
+    const a = root(cornerVertex(mesh, triangle, 0))
+    for (let corner = 1; corner < 3; corner++) {
+      const b = root(cornerVertex(mesh, triangle, corner))
+      if (a !== b) parent[b] = a
+    }
+
+    // Tie the triangle to the first vertex of its part, so disjoint pieces of a part stay together
+    if (mesh.parts) {
+      const first = partVertex.get(mesh.parts[triangle])
+      if (first === undefined) {
+        partVertex.set(mesh.parts[triangle], a)
+      } else {
+        const b = root(first)
+        const top = root(a)
+        if (top !== b) parent[b] = top
+      }
+    }
+  }
+
+  // Number the roots in facet order; vertices used by no facet join shell 0
+  const shellOfRoot = new Int32Array(vertices).fill(-1)
+  let count = 0
+  for (let triangle = 0; triangle < triangles; triangle++) {
+    const top = root(cornerVertex(mesh, triangle, 0))
+    if (shellOfRoot[top] === -1) shellOfRoot[top] = count++
+  }
+
+  const vertexShells = new Uint32Array(vertices)
+  for (let vertex = 0; vertex < vertices; vertex++) {
+    vertexShells[vertex] = Math.max(0, shellOfRoot[root(vertex)])
+  }
+
+  return { count, vertexShells }
+}
+
+// Facet count, bounds and volume per shell, in the mesh's current coordinates
+export function describeShells(mesh: Mesh, shells: Shells): ShellInfo[] {
+  const positions = mesh.positions
+  const info: ShellInfo[] = Array.from({ length: shells.count }, (_, index) => ({
+    index,
+    triangles: 0,
+    bounds: {
+      min: [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY],
+      max: [Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY],
+    },
+    dimensions: [0, 0, 0],
+    volume: 0,
+    color: hex(SHELL_PALETTE[index % SHELL_PALETTE.length]),
+  }))
+
+  for (let triangle = 0; triangle < triangleCount(mesh); triangle++) {
+    const corners = [0, 1, 2].map((corner) => cornerVertex(mesh, triangle, corner) * 3)
+    const shell = info[shells.vertexShells[corners[0] / 3]]
+    shell.triangles++
+
+    for (const corner of corners) {
+      for (let axis = 0; axis < 3; axis++) {
+        shell.bounds.min[axis] = Math.min(shell.bounds.min[axis], positions[corner + axis])
+        shell.bounds.max[axis] = Math.max(shell.bounds.max[axis], positions[corner + axis])
+      }
+    }
+
+    const [a, b, c] = corners
+    shell.volume +=
+      (positions[a] * (positions[b + 1] * positions[c + 2] - positions[b + 2] * positions[c + 1]) -
+        positions[a + 1] * (positions[b] * positions[c + 2] - positions[b + 2] * positions[c]) +
+        positions[a + 2] * (positions[b] * positions[c + 1] - positions[b + 1] * positions[c])) /
+      6
+  }
+
+  for (const shell of info) {
+    shell.dimensions = [0, 1, 2].map((axis) => shell.bounds.max[axis] - shell.bounds.min[axis]) as Vec3
+  }
+
+  return info
+}
+
+// Per-vertex colours that paint each shell in its palette colour
+export function shellColors(shells: Shells): Uint8Array {
+  const colors = new Uint8Array(shells.vertexShells.length * 3)
+  shells.vertexShells.forEach((shell, vertex) => {
+    colors.set(SHELL_PALETTE[shell % SHELL_PALETTE.length], vertex * 3)
+  })
+  return colors
+}
@@ -0,0 +1,71 @@
+import type { RGB } from "@/lib/rasterizer"
+
+export interface SpriteCell {
+  index: number
+  name: string
+  description: string
+  // Pixel offset of the cell's top-left corner within the sheet
+  x: number
+  y: number
+  width: number
+  height: number
+  // Camera angles in degrees, in the renderer's Y-up frame
+  azimuth: number
+  elevation: number
+  // Turntable frames also carry their spin angle
+  angle?: number
+}
+
+export interface SpriteManifest {
+  width: number
+  height: number
+  cellWidth: number
+  cellHeight: number
+  columns: number
+  rows: number
+  frames: SpriteCell[]
+}
+
+export type SpriteFrameInfo = Omit<SpriteCell, "index" | "x" | "y" | "width" | "height">
+
+// Square-ish grid, filled row by row
+export function spriteColumns(frameCount: number, columns?: number): number {
+  return Math.max(1, Math.min(frameCount, columns ?? Math.ceil(Math.sqrt(frameCount))))
+}
+
+// Copy equally sized RGBA frames into a grid atlas. Unused cells are filled with the background.
+export function packSpriteSheet(
+  frames: Uint8Array[],
+  info: SpriteFrameInfo[],
+  cellWidth: number,
+  cellHeight: number,
+  columns: number,
+  background: RGB,
+): { pixels: Uint8Array; manifest: SpriteManifest } {
+  const rows = Math.ceil(frames.length / columns)
+  const width = cellWidth * columns
+  const height = cellHeight * rows
+
+  const pixels = new Uint8Array(width * height * 4)
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = background[0]
+    pixels[i + 1] = background[1]
+    pixels[i + 2] = background[2]
+    pixels[i + 3] = 255
+  }
+
+  const cells: SpriteCell[] = frames.map((frame, index) => {
+    const x = (index % columns) * cellWidth
+    const y = Math.floor(index / columns) * cellHeight
+    const rowBytes = cellWidth * 4
+
+    for (let row = 0; row < cellHeight; row++) {
+      const source = row * rowBytes
+      pixels.set(frame.subarray(source, source + rowBytes), ((y + row) * width + x) * 4)
+    }
+
+    return { index, ...info[index], x, y, width: cellWidth, height: cellHeight }
+  })
+
+  return { pixels, manifest: { width, height, cellWidth, cellHeight, columns, rows, frames: cells } }
+}
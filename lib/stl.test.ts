@@ -0,0 +1,65 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseSTL, parseSTLStream, type STLWarning } from "@/lib/stl"
+
+// A binary STL with one facet per attribute word, each a unit triangle moved along x by its index
+function binarySTL(attributes: number[], trailing = new Uint8Array(0)): ArrayBuffer {
+  const bytes = new Uint8Array(84 + attributes.length * 50 + trailing.length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(80, attributes.length, true)
+  attributes.forEach((attribute, facet) => {
+    const offset = 84 + facet * 50
+    const corners = [1 + facet, 0, 0, facet, 1, 0, facet, 0, 1]
+    corners.forEach((value, index) => view.setFloat32(offset + 12 + index * 4, value, true))
+    view.setUint16(offset + 48, attribute, true)
+  })
+  bytes.set(trailing, 84 + attributes.length * 50)
+  return bytes.buffer
+}
+
+test("the colour convention comes from the facets the parser read", () => {
+  const { mesh, colorConvention } = parseSTL(binarySTL([0x8000 | 0x7c00, 0]))
+  assert.equal(colorConvention, "viscam")
+  assert.deepEqual([...(mesh.coloredFaces ?? [])], [1, 0])
+})
+
+test("a colour bit in bytes past the declared facets does not make the file coloured", () => {
+  const warnings: STLWarning[] = []
+  const { colorConvention } = parseSTL(binarySTL([0], new Uint8Array(50).fill(0xff)), warnings)
+  assert.equal(colorConvention, "none")
+  assert.deepEqual(warnings.map((warning) => warning.code), ["STL_TRAILING_DATA"])
+})
+
+// Send a file in chunks of `size` bytes, so records and tokens are cut at arbitrary points
+function chunked(buffer: ArrayBuffer, size: number): ReadableStream<Uint8Array> {
+  const bytes = new Uint8Array(buffer)
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+      } else {
+        controller.enqueue(bytes.slice(offset, offset + size))
+        offset += size
+      }
+    },
+  })
+}
+
+test("binary facets split across chunks stream to the same mesh as the whole file", async () => {
+  const buffer = binarySTL(Array.from({ length: 40 }, () => 0))
+  const streamed = await parseSTLStream(chunked(buffer, 37), null, [])
+  assert.deepEqual(streamed.mesh.positions, parseSTL(buffer).mesh.positions)
+  assert.deepEqual(streamed.bounds, { min: [0, 0, 0], max: [40, 1, 1] })
+})
+
+test("ASCII tokens split across chunks are read whole", async () => {
+  const facet = (x: number) =>
+    `facet normal 0 0 1\n outer loop\n  vertex ${x} 0 0\n  vertex ${x + 1} 0 0\n  vertex ${x} 1.5e0 0\n` +
+    " endloop\nendfacet\n"
+  const text = `solid test\n${Array.from({ length: 30 }, (_, x) => facet(x * 10)).join("")}endsolid test\n`
+  const buffer = new TextEncoder().encode(text).buffer as ArrayBuffer
+  const streamed = await parseSTLStream(chunked(buffer, 5), null, [])
+  assert.equal(streamed.mesh.positions.length, 30 * 9)
+  assert.deepEqual([...streamed.mesh.positions.slice(-9)], [290, 0, 0, 291, 0, 0, 290, 1.5, 0])
+})
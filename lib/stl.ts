@@ -0,0 +1,462 @@
+import { cornerVertex, ensureCapacity, triangleCount, vertexPosition, type Bounds, type Mesh } from "@/lib/mesh"
+import type { RGB } from "@/lib/rasterizer"
+import { cross, normalize, subtract } from "@/lib/vector"
+
+export type STLFormat = "binary" | "ascii"
+
+// How a binary STL stores facet colours in its attribute words:
+// - "viscam": VisCAM and SolidView set bit 15 on coloured facets, with red in bits 10-14,
+//   green in 5-9 and blue in 0-4
+// - "materialise": Materialise Magics writes "COLOR=" and an RGBA object colour in the
+//   header; facets with bit 15 clear have their own colour, blue in bits 10-14, green
+//   in 5-9 and red in 0-4, and the rest take the object colour
+export type STLColorConvention = "none" | "viscam" | "materialise"
+
+// Problems found while reading a file that was still loaded. Strict requests
+// reject the file instead, reporting the first code.
+export type STLWarningCode = "STL_TRUNCATED" | "STL_TRAILING_DATA" | "STL_NON_FINITE_COORDINATES"
+
+export interface STLWarning {
+  code: STLWarningCode
+  message: string
+}
+
+const BINARY_HEADER_SIZE = 84
+const BINARY_FACET_SIZE = 50
+
+// Bytes at the start of a file that decide between binary and ASCII
+const FORMAT_SAMPLE_SIZE = 1024
+
+// Facets allocated up front from a declared size. Both the header and a stream's
+// length come from the client, so past this the arrays grow as facets really arrive.
+const MAX_PREALLOCATED_FACETS = 10_000_000
+
+// Work out whether a buffer holds a binary or ASCII STL
+export function detectSTLFormat(buffer: ArrayBuffer): STLFormat {
+  const start = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, FORMAT_SAMPLE_SIZE))
+  return detectFormatFromStart(start, buffer.byteLength)
+}
+
+// Decide from the first kilobyte of a file and, when known, its size. Many binary
+// exporters also start their 80-byte header with "solid", so the prefix alone is not enough.
+function detectFormatFromStart(bytes: Uint8Array, size: number | null): STLFormat {
+  // A binary file whose declared triangle count matches its size is binary, whatever the header says
+  if (size !== null && bytes.length >= BINARY_HEADER_SIZE) {
+    const declaredCount = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true)
+    if (BINARY_HEADER_SIZE + declaredCount * BINARY_FACET_SIZE === size) {
+      return "binary"
+    }
+  }
+
+  // Skip leading whitespace and look for the "solid" keyword
+  let start = 0
+  while (start < bytes.length && isWhitespace(bytes[start])) start++
+  const prefix = String.fromCharCode(...bytes.subarray(start, start + 5)).toLowerCase()
+  if (prefix !== "solid") {
+    return "binary"
+  }
+
+  // ASCII files are plain text and mention "facet" early on
+  for (const byte of bytes) {
+    if (byte === 0 || byte > 127) {
+      return "binary"
+    }
+  }
+
+  const text = new TextDecoder("latin1").decode(bytes).toLowerCase()
+  if (text.includes("facet") || text.includes("endsolid")) {
+    return "ascii"
+  }
+
+  return "binary"
+}
+
+function expand5Bits(value: number): number {
+  return (value << 3) | (value >> 2)
+}
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d || byte === 0x0c || byte === 0x0b
+}
+
+export interface ParsedSTL {
+  mesh: Mesh
+  // Accumulated while the facets were read
+  bounds: Bounds
+  colorConvention: STLColorConvention
+}
+
+// Takes an STL file a chunk at a time, split wherever its source happens to split it
+interface STLReader {
+  push: (chunk: Uint8Array) => void
+  finish: () => ParsedSTL
+}
+
+// Simple STL parser. Facets with NaN or infinite coordinates are dropped; that and
+// any mismatch between a binary header and the file size are added to `warnings`.
+export function parseSTL(buffer: ArrayBuffer, warnings: STLWarning[] = []): ParsedSTL {
+  console.log(`Parsing STL file, buffer size: ${buffer.byteLength} bytes`)
+
+  const format = detectSTLFormat(buffer)
+  console.log(`Detected ${format} STL`)
+
+  const reader = format === "ascii" ? asciiSTLReader(warnings) : binarySTLReader(warnings, buffer.byteLength)
+  reader.push(new Uint8Array(buffer))
+  return finishSTL(reader, warnings)
+}
+
+// Parse an STL while it is still arriving, for uploads too large to buffer. Facets
+// go straight into the mesh's typed arrays as each chunk is read, so memory follows
+// the size of the mesh rather than the file. `size` is the length of the stream if
+// known; it helps tell binary from ASCII and lets a binary file's arrays be allocated once.
+export async function parseSTLStream(
+  stream: ReadableStream<Uint8Array>,
+  size: number | null,
+  warnings: STLWarning[] = [],
+): Promise<ParsedSTL> {
+  console.log(`Parsing STL stream${size === null ? "" : `, ${size} bytes`}`)
+
+  // Hold the first chunks back until there is enough to tell the format
+  const source = stream.getReader()
+  const start: Uint8Array[] = []
+  let startLength = 0
+  let done = false
+  while (!done && startLength < FORMAT_SAMPLE_SIZE) {
+    const next = await source.read()
+    if (next.done) {
+      done = true
+    } else {
+      start.push(next.value)
+      startLength += next.value.length
+    }
+  }
+
+  const head = Buffer.concat(start)
+  const format = detectFormatFromStart(head.subarray(0, FORMAT_SAMPLE_SIZE), size)
+  console.log(`Detected ${format} STL`)
+
+  const reader = format === "ascii" ? asciiSTLReader(warnings) : binarySTLReader(warnings, size)
+  reader.push(head)
+  while (!done) {
+    const next = await source.read()
+    if (next.done) {
+      done = true
+    } else {
+      reader.push(next.value)
+    }
+  }
+
+  return finishSTL(reader, warnings)
+}
+
+function finishSTL(reader: STLReader, warnings: STLWarning[]): ParsedSTL {
+  const parsed = reader.finish()
+  for (const warning of warnings) {
+    console.log(`Warning ${warning.code}: ${warning.message}`)
+  }
+  return parsed
+}
+
+function nonFiniteWarning(facets: number): STLWarning {
+  return {
+    code: "STL_NON_FINITE_COORDINATES",
+    message: `Skipped ${facets} facets with NaN or infinite coordinates`,
+  }
+}
+
+function emptyBounds(): Bounds {
+  return {
+    min: [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY],
+    max: [Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY],
+  }
+}
+
+// Grow the bounds to take in the triangle whose nine coordinates start at `offset`
+function includeTriangle(bounds: Bounds, positions: Float32Array, offset: number) {
+  for (let i = 0; i < 9; i++) {
+    const axis = i % 3
+    const value = positions[offset + i]
+    if (value < bounds.min[axis]) bounds.min[axis] = value
+    if (value > bounds.max[axis]) bounds.max[axis] = value
+  }
+}
+
+// Facets are decoded in place from each chunk; only one split between two chunks is
+// copied. Colours are decoded at the end, once it is known whether any facet sets
+// the VisCAM colour bit. With the file size known up front the arrays are allocated
+// once; otherwise they grow as facets arrive.
+function binarySTLReader(warnings: STLWarning[], size: number | null): STLReader {
+  const header = new Uint8Array(BINARY_HEADER_SIZE)
+  const pending = new Uint8Array(BINARY_FACET_SIZE)
+  const pendingView = new DataView(pending.buffer)
+  const bounds = emptyBounds()
+
+  let positions = new Float32Array(0)
+  let attributes = new Uint16Array(0)
+  let received = 0
+  let pendingLength = 0
+  let declaredCount = 0
+  // Complete facets within the declared count, kept or not
+  let facets = 0
+  let kept = 0
+  let nonFinite = 0
+  let colorBit = false
+
+  const readFacet = (view: DataView, offset: number) => {
+    if (facets === declaredCount) return
+    facets++
+
+    positions = ensureCapacity(positions, (kept + 1) * 9)
+    let finite = true
+    for (let j = 0; j < 9; j++) {
+      // The corners follow the stored normal, which is not used
+      const value = view.getFloat32(offset + 12 + j * 4, true)
+      positions[kept * 9 + j] = value
+      finite &&= Number.isFinite(value)
+    }
+
+    if (!finite) {
+      nonFinite++
+      return
+    }
+
+    const attribute = view.getUint16(offset + 48, true)
+    colorBit ||= (attribute & 0x8000) !== 0
+    attributes = ensureCapacity(attributes, kept + 1)
+    attributes[kept] = attribute
+    includeTriangle(bounds, positions, kept * 9)
+    kept++
+  }
+
+  return {
+    push(chunk) {
+      let offset = 0
+
+      if (received < BINARY_HEADER_SIZE) {
+        offset = Math.min(chunk.length, BINARY_HEADER_SIZE - received)
+        header.set(chunk.subarray(0, offset), received)
+        if (received + offset === BINARY_HEADER_SIZE) {
+          declaredCount = new DataView(header.buffer).getUint32(80, true)
+          console.log(`STL has ${declaredCount} triangles`)
+
+          // Truncated files keep the facets that are complete
+          if (size !== null) {
+            const count = Math.min(
+              declaredCount,
+              Math.floor((size - BINARY_HEADER_SIZE) / BINARY_FACET_SIZE),
+              MAX_PREALLOCATED_FACETS,
+            )
+            positions = new Float32Array(count * 9)
+            attributes = new Uint16Array(count)
+          }
+        }
+      }
+      received += chunk.length
+
+      if (pendingLength > 0) {
+        const length = Math.min(chunk.length - offset, BINARY_FACET_SIZE - pendingLength)
+        pending.set(chunk.subarray(offset, offset + length), pendingLength)
+        pendingLength += length
+        offset += length
+        if (pendingLength === BINARY_FACET_SIZE) {
+          readFacet(pendingView, 0)
+          pendingLength = 0
+        }
+      }
+
+      const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      for (; offset + BINARY_FACET_SIZE <= chunk.length; offset += BINARY_FACET_SIZE) {
+        readFacet(view, offset)
+      }
+
+      pending.set(chunk.subarray(offset), pendingLength)
+      pendingLength += chunk.length - offset
+    },
+
+    finish() {
+      if (received < BINARY_HEADER_SIZE) {
+        warnings.push({
+          code: "STL_TRUNCATED",
+          message: `File is ${received} bytes, shorter than the ${BINARY_HEADER_SIZE}-byte binary header`,
+        })
+        return { mesh: { positions: new Float32Array(0) }, bounds, colorConvention: "none" }
+      }
+
+      const expectedSize = BINARY_HEADER_SIZE + declaredCount * BINARY_FACET_SIZE
+      if (expectedSize > received) {
+        warnings.push({
+          code: "STL_TRUNCATED",
+          message:
+            `Header declares ${declaredCount} facets (${expectedSize} bytes) but the file is ${received} bytes; ` +
+            `read the ${facets} complete facets`,
+        })
+      } else if (expectedSize < received) {
+        warnings.push({
+          code: "STL_TRAILING_DATA",
+          message: `Ignored ${received - expectedSize} bytes after the ${declaredCount} declared facets`,
+        })
+      }
+
+      if (nonFinite > 0) {
+        warnings.push(nonFiniteWarning(nonFinite))
+      }
+
+      const headerText = new TextDecoder("latin1").decode(header.subarray(0, 80))
+      const convention: STLColorConvention = headerText.includes("COLOR=")
+        ? "materialise"
+        : colorBit
+          ? "viscam"
+          : "none"
+      const faceColors = convention === "none" ? undefined : new Uint8Array(kept * 3)
+      // Facets left uncoloured (see Mesh.coloredFaces), made only when there are some
+      let coloredFaces: Uint8Array | undefined
+
+      if (faceColors) {
+        console.log(`Reading ${convention} facet colours`)
+
+        // A header cut off before the colour bytes gives no object colour
+        let objectColor: RGB | null = null
+        const colorAt = headerText.indexOf("COLOR=") + 6
+        if (convention === "materialise" && colorAt + 3 <= 80) {
+          objectColor = [header[colorAt], header[colorAt + 1], header[colorAt + 2]]
+        }
+
+        for (let i = 0; i < kept; i++) {
+          const attribute = attributes[i]
+          const low = expand5Bits(attribute & 0x1f),
+            middle = expand5Bits((attribute >> 5) & 0x1f),
+            high = expand5Bits((attribute >> 10) & 0x1f)
+          const color: RGB | null =
+            convention === "viscam"
+              ? attribute & 0x8000
+                ? [high, middle, low]
+                : null
+              : attribute & 0x8000
+                ? objectColor
+                : [low, middle, high]
+
+          if (color) {
+            faceColors.set(color, i * 3)
+          } else {
+            coloredFaces ??= new Uint8Array(kept).fill(1)
+            coloredFaces[i] = 0
+          }
+        }
+      }
+
+      console.log(`Parsed ${kept} triangles`)
+      // Only copy when the arrays have room to spare
+      return {
+        mesh: {
+          positions: positions.length === kept * 9 ? positions : positions.slice(0, kept * 9),
+          ...(faceColors ? { faceColors } : {}),
+          ...(coloredFaces ? { coloredFaces } : {}),
+        },
+        bounds,
+        colorConvention: convention,
+      }
+    },
+  }
+}
+
+// Tolerant ASCII STL reader. Keywords are matched case-insensitively, any run of
+// whitespace (including CRLF) separates tokens, and several solids may follow each
+// other. A token cut off at the end of a chunk waits for the rest in the next one.
+function asciiSTLReader(warnings: STLWarning[]): STLReader {
+  const decoder = new TextDecoder("latin1")
+  const bounds = emptyBounds()
+
+  let positions = new Float32Array(0)
+  let length = 0
+  let facet: number[] = []
+  // Numbers still to read after a "vertex" keyword
+  let coordinates = 0
+  let skippedFacets = 0
+  let nonFinite = 0
+  let carry = ""
+
+  const readToken = (token: string) => {
+    if (coordinates > 0) {
+      facet.push(Number.parseFloat(token))
+      coordinates--
+      return
+    }
+
+    const keyword = token.toLowerCase()
+    if (keyword === "facet") {
+      facet = []
+    } else if (keyword === "vertex") {
+      coordinates = 3
+    } else if (keyword === "endfacet") {
+      if (!facet.every(Number.isFinite)) {
+        nonFinite++
+      } else if (facet.length >= 9) {
+        // Some exporters write polygons; fan them into triangles
+        for (let i = 3; i + 5 < facet.length; i += 3) {
+          positions = ensureCapacity(positions, length + 9)
+          positions.set(facet.slice(0, 3), length)
+          positions.set(facet.slice(i, i + 6), length + 3)
+          includeTriangle(bounds, positions, length)
+          length += 9
+        }
+      } else {
+        skippedFacets++
+      }
+      facet = []
+    }
+  }
+
+  const readTokens = (text: string) => {
+    for (const match of text.matchAll(/\S+/g)) {
+      readToken(match[0])
+    }
+  }
+
+  return {
+    push(chunk) {
+      const text = carry + decoder.decode(chunk, { stream: true })
+      let end = text.length
+      while (end > 0 && !isWhitespace(text.charCodeAt(end - 1))) end--
+      carry = text.slice(end)
+      readTokens(text.slice(0, end))
+    },
+
+    finish() {
+      readTokens(carry + decoder.decode())
+      carry = ""
+
+      if (skippedFacets > 0) {
+        console.log(`Skipped ${skippedFacets} facets with fewer than 3 vertices`)
+      }
+      if (nonFinite > 0) {
+        warnings.push(nonFiniteWarning(nonFinite))
+      }
+
+      console.log(`Parsed ${length / 9} triangles`)
+      return { mesh: { positions: positions.slice(0, length) }, bounds, colorConvention: "none" }
+    },
+  }
+}
+
+// Write a binary STL. Facet normals are recomputed from the vertex winding, and the
+// attribute bytes are left at zero.
+export function writeBinarySTL(mesh: Mesh, header = "Binary STL"): Buffer {
+  const count = triangleCount(mesh)
+  const buffer = Buffer.alloc(BINARY_HEADER_SIZE + count * BINARY_FACET_SIZE)
+  buffer.write(header.slice(0, 80), 0, "latin1")
+  buffer.writeUInt32LE(count, 80)
+
+  let offset = BINARY_HEADER_SIZE
+  for (let triangle = 0; triangle < count; triangle++) {
+    const [a, b, c] = [0, 1, 2].map((corner) => vertexPosition(mesh, cornerVertex(mesh, triangle, corner)))
+    const normal = normalize(cross(subtract(b, a), subtract(c, a)))
+
+    for (const value of [...normal, ...a, ...b, ...c]) {
+      buffer.writeFloatLE(value, offset)
+      offset += 4
+    }
+    offset += 2 // Attribute
+  }
+
+  return buffer
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parse3MF } from "@/lib/threemf"
+import { createZipStream } from "@/lib/zip"
+
+const TRIANGLE_OBJECT = (id: number) => `
+  <object id="${id}" type="model"><mesh>
+    <vertices><vertex x="0" y="0" z="0"/><vertex x="1" y="0" z="0"/><vertex x="0" y="1" z="0"/></vertices>
+    <triangles><triangle v1="0" v2="1" v3="2"/></triangles>
+  </mesh></object>`
+
+async function package3MF(resources: string, build: string): Promise<ArrayBuffer> {
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>${resources}</resources>
+  <build>${build}</build>
+</model>`
+  return new Response(createZipStream([{ name: "3D/3dmodel.model", data: model, compress: true }])).arrayBuffer()
+}
+
+test("every object placed through components is its own part", async () => {
+  const resources = `${TRIANGLE_OBJECT(1)}${TRIANGLE_OBJECT(2)}
+    <object id="3" type="model"><components>
+      <component objectid="1"/><component objectid="2" transform="1 0 0 0 1 0 0 0 1 5 0 0"/>
+    </components></object>`
+  const mesh = parse3MF(await package3MF(resources, `<item objectid="3"/><item objectid="1"/>`))
+  assert.deepEqual([...(mesh.parts ?? [])], [0, 1, 2])
+  assert.equal(mesh.positions[9], 5)
+})
+
+test("components that multiply into too many placements are rejected", async () => {
+  // 400 copies of 400 copies of one triangle
+  const components = (id: number) => `<component objectid="${id}"/>`.repeat(400)
+  const resources = `${TRIANGLE_OBJECT(1)}
+    <object id="2" type="model"><components>${components(1)}</components></object>
+    <object id="3" type="model"><components>${components(2)}</components></object>`
+  const buffer = await package3MF(resources, `<item objectid="3"/>`)
+  assert.throws(() => parse3MF(buffer), /places more than 100000 objects/)
+})
+
+test("a package whose relationships name a missing model part is an error", async () => {
+  const rels = `<Relationships><Relationship Target="/3D/missing.model" Id="r0"
+    Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/></Relationships>`
+  const buffer = await new Response(createZipStream([{ name: "_rels/.rels", data: rels }])).arrayBuffer()
+  assert.throws(() => parse3MF(buffer), /has no model part 3D\/missing.model/)
+})
@@ -0,0 +1,287 @@
+import { ensureCapacity, type Mesh } from "@/lib/mesh"
+import type { RGB } from "@/lib/rasterizer"
+import { scanXML } from "@/lib/xml"
+import { extractZipFile, MAX_ARCHIVE_ENTRIES, MAX_EXPANDED_SIZE, readZipDirectory } from "@/lib/zip"
+
+const MODEL_RELATIONSHIP = "http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"
+const DEFAULT_MODEL_PATH = "3D/3dmodel.model"
+
+// Components nested deeper than this are assumed to form a cycle
+const MAX_COMPONENT_DEPTH = 32
+
+// Objects may be placed many times over, and each component can double the count
+// of those below it, so a small file can describe an enormous scene
+const MAX_COMPONENT_INSTANCES = 100_000
+const MAX_PLACED_TRIANGLES = 10_000_000
+
+// 3MF affine transform, applied to row vectors: the 3x3 linear part row by row, then
+// the translation. A point maps to [x y z 1] times the 4x3 matrix.
+type Transform = number[]
+
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]
+
+interface Component {
+  objectId: string
+  // Model file holding the object (production extension); the referring file when null
+  path: string | null
+  transform: Transform
+}
+
+interface ModelObject {
+  vertices: number[]
+  // v1, v2, v3 per triangle
+  triangles: number[]
+  // r, g, b per triangle, or -1 when the triangle has no colour
+  colors: number[]
+  components: Component[]
+}
+
+interface ModelFile {
+  objects: Map<string, ModelObject>
+  build: Component[]
+}
+
+function parseTransform(value: string | undefined): Transform {
+  const numbers = value?.trim().split(/\s+/).map(Number)
+  return numbers?.length === 12 && numbers.every(Number.isFinite) ? numbers : IDENTITY
+}
+
+// Apply `first`, then `second`
+function compose(first: Transform, second: Transform): Transform {
+  const result = new Array<number>(12).fill(0)
+  for (let row = 0; row < 4; row++) {
+    for (let column = 0; column < 3; column++) {
+      let sum = row === 3 ? second[9 + column] : 0
+      for (let k = 0; k < 3; k++) {
+        sum += first[row * 3 + k] * second[k * 3 + column]
+      }
+      result[row * 3 + column] = sum
+    }
+  }
+  return result
+}
+
+function determinant(t: Transform): number {
+  return t[0] * (t[4] * t[8] - t[5] * t[7]) - t[1] * (t[3] * t[8] - t[5] * t[6]) + t[2] * (t[3] * t[7] - t[4] * t[6])
+}
+
+// "#RRGGBB" or "#RRGGBBAA"; alpha is ignored
+function parseColor(value: string | undefined): RGB | null {
+  const match = value && /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})?$/i.exec(value.trim())
+  return match ? [Number.parseInt(match[1], 16), Number.parseInt(match[2], 16), Number.parseInt(match[3], 16)] : null
+}
+
+// Attributes from the production extension carry a namespace prefix of the file's choosing
+function prefixedAttribute(attributes: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(attributes).find((key) => key.endsWith(`:${name}`))
+  return key === undefined ? undefined : attributes[key]
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, "")
+}
+
+// Read one model part: property groups, objects and build items. Triangle colours are
+// resolved here from the triangle's property (or its object's default), averaging
+// the three corners when they differ.
+function parseModelFile(text: string): ModelFile {
+  const objects = new Map<string, ModelObject>()
+  const build: Component[] = []
+  // Entries whose colour cannot be read are null, leaving their triangles uncoloured
+  const propertyGroups = new Map<string, (RGB | null)[]>()
+
+  let group: (RGB | null)[] | null = null
+  let object: ModelObject | null = null
+  let objectProperty: { id?: string; index?: string } = {}
+  let inBuild = false
+
+  scanXML(text, {
+    open(name, attributes) {
+      if (name === "model" && attributes.unit) {
+        console.log(`3MF unit: ${attributes.unit}`)
+      } else if (name === "basematerials" || name === "colorgroup") {
+        group = []
+        propertyGroups.set(attributes.id, group)
+      } else if (group && (name === "base" || name === "color")) {
+        const color = parseColor(name === "base" ? attributes.displaycolor : attributes.color)
+        group.push(color)
+      } else if (name === "object") {
+        object = { vertices: [], triangles: [], colors: [], components: [] }
+        objects.set(attributes.id, object)
+        objectProperty = { id: attributes.pid, index: attributes.pindex }
+      } else if (object && name === "vertex") {
+        object.vertices.push(Number(attributes.x), Number(attributes.y), Number(attributes.z))
+      } else if (object && name === "triangle") {
+        object.triangles.push(Number(attributes.v1), Number(attributes.v2), Number(attributes.v3))
+
+        const properties = propertyGroups.get(attributes.pid ?? objectProperty.id ?? "")
+        const first = attributes.p1 ?? (attributes.pid === undefined ? objectProperty.index : undefined) ?? "0"
+        const corners = [first, attributes.p2 ?? first, attributes.p3 ?? first]
+          .map((index) => properties?.[Number(index)])
+          .filter((color): color is RGB => color !== undefined && color !== null)
+        if (corners.length > 0) {
+          for (let channel = 0; channel < 3; channel++) {
+            object.colors.push(corners.reduce((sum, color) => sum + color[channel], 0) / corners.length)
+          }
+        } else {
+          object.colors.push(-1, -1, -1)
+        }
+      } else if (object && name === "component") {
+        object.components.push({
+          objectId: attributes.objectid,
+          path: prefixedAttribute(attributes, "path") ?? null,
+          transform: parseTransform(attributes.transform),
+        })
+      } else if (name === "build") {
+        inBuild = true
+      } else if (inBuild && name === "item") {
+        build.push({
+          objectId: attributes.objectid,
+          path: prefixedAttribute(attributes, "path") ?? null,
+          transform: parseTransform(attributes.transform),
+        })
+      }
+    },
+    close(name) {
+      if (name === "basematerials" || name === "colorgroup") {
+        group = null
+      } else if (name === "object") {
+        object = null
+      } else if (name === "build") {
+        inBuild = false
+      }
+    },
+  })
+
+  return { objects, build }
+}
+
+// 3D Manufacturing Format reader. The package's root model is found through its
+// relationships, and every build item is placed with its own transform composed with
+// those of any components it is assembled from. Each placed object that has a mesh
+// becomes one part (see Mesh.parts), including every object a component places. Colours come from basematerials and colorgroups; triangles
+// without one are left uncoloured (see Mesh.coloredFaces) when others have colours.
+export function parse3MF(buffer: ArrayBuffer): Mesh {
+  console.log(`Parsing 3MF file, buffer size: ${buffer.byteLength} bytes`)
+
+  const archive = new Uint8Array(buffer)
+  const files = readZipDirectory(archive)
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`3MF package has more than ${MAX_ARCHIVE_ENTRIES} entries`)
+  }
+
+  // Each part is read at most once, so the declared sizes of those read bound the total
+  const entries = new Map(files.map((file) => [normalizePath(file.name).toLowerCase(), file]))
+  let expanded = 0
+  const readText = (path: string): string | null => {
+    const file = entries.get(normalizePath(path).toLowerCase())
+    if (!file) return null
+    expanded += file.size
+    if (expanded > MAX_EXPANDED_SIZE) {
+      throw new Error(`3MF package expands past ${MAX_EXPANDED_SIZE} bytes`)
+    }
+    return new TextDecoder("utf-8").decode(extractZipFile(archive, file))
+  }
+
+  // The start part relationship names the root model; fall back to the usual location
+  let rootPath = DEFAULT_MODEL_PATH
+  scanXML(readText("_rels/.rels") ?? "", {
+    open(name, attributes) {
+      if (name === "Relationship" && attributes.Type === MODEL_RELATIONSHIP && attributes.Target) {
+        rootPath = normalizePath(attributes.Target)
+      }
+    },
+  })
+
+  const modelFiles = new Map<string, ModelFile>()
+  const modelFile = (path: string): ModelFile => {
+    let model = modelFiles.get(path)
+    if (!model) {
+      const text = readText(path)
+      if (text === null) throw new Error(`3MF package has no model part ${path}`)
+      model = parseModelFile(text)
+      modelFiles.set(path, model)
+    }
+    return model
+  }
+
+  let positions = new Float32Array(0)
+  let colors = new Uint8Array(0)
+  let coloredFaces = new Uint8Array(0)
+  let parts = new Uint32Array(0)
+  let triangles = 0
+  let part = 0
+  let colored = 0
+  let missingObjects = 0
+  let instances = 0
+
+  const place = (path: string, objectId: string, transform: Transform, depth: number) => {
+    const object = modelFile(path).objects.get(objectId)
+    if (!object || depth > MAX_COMPONENT_DEPTH) {
+      missingObjects++
+      return
+    }
+
+    const count = object.triangles.length / 3
+    if (++instances > MAX_COMPONENT_INSTANCES) {
+      throw new Error(`3MF package places more than ${MAX_COMPONENT_INSTANCES} objects`)
+    }
+    if (triangles + count > MAX_PLACED_TRIANGLES) {
+      throw new Error(`3MF package places more than ${MAX_PLACED_TRIANGLES} triangles`)
+    }
+
+    // Mirroring transforms turn facets inside out; swap two corners to keep them facing out
+    const mirrored = determinant(transform) < 0
+    positions = ensureCapacity(positions, (triangles + count) * 9)
+    colors = ensureCapacity(colors, (triangles + count) * 3)
+    coloredFaces = ensureCapacity(coloredFaces, triangles + count)
+    parts = ensureCapacity(parts, triangles + count)
+
+    for (let triangle = 0; triangle < count; triangle++) {
+      const corners = [0, 1, 2].map((corner) => object.triangles[triangle * 3 + corner])
+      if (corners.some((vertex) => !(vertex >= 0 && vertex * 3 < object.vertices.length))) continue
+      if (mirrored) corners.reverse()
+
+      for (let corner = 0; corner < 3; corner++) {
+        const [x, y, z] = object.vertices.slice(corners[corner] * 3, corners[corner] * 3 + 3)
+        for (let axis = 0; axis < 3; axis++) {
+          positions[triangles * 9 + corner * 3 + axis] =
+            x * transform[axis] + y * transform[3 + axis] + z * transform[6 + axis] + transform[9 + axis]
+        }
+      }
+
+      if (object.colors[triangle * 3] !== -1) {
+        colors.set(object.colors.slice(triangle * 3, triangle * 3 + 3), triangles * 3)
+        coloredFaces[triangles] = 1
+        colored++
+      } else {
+        coloredFaces[triangles] = 0
+      }
+      parts[triangles] = part
+      triangles++
+    }
+    if (count > 0) part++
+
+    for (const component of object.components) {
+      const componentPath = component.path ? normalizePath(component.path) : path
+      place(componentPath, component.objectId, compose(component.transform, transform), depth + 1)
+    }
+  }
+
+  const build = modelFile(rootPath).build
+  for (const item of build) {
+    place(item.path ? normalizePath(item.path) : rootPath, item.objectId, item.transform, 0)
+  }
+
+  if (missingObjects > 0) {
+    console.log(`Skipped ${missingObjects} references to missing or cyclic objects`)
+  }
+
+  console.log(`Parsed ${triangles} triangles in ${part} objects from ${build.length} build items`)
+  return {
+    positions: positions.slice(0, triangles * 9),
+    ...(colored > 0 ? { faceColors: colors.slice(0, triangles * 3) } : {}),
+    ...(colored > 0 && colored < triangles ? { coloredFaces: coloredFaces.slice(0, triangles) } : {}),
+    parts: parts.slice(0, triangles),
+  }
+}
@@ -0,0 +1,106 @@
+import { encodeAPNG } from "@/lib/apng"
+import { encodeGIF } from "@/lib/gif"
+import { computeBounds, type Mesh } from "@/lib/mesh"
+import { DEFAULT_RASTER_OPTIONS, fitFraming, rasterize, type RasterOptions } from "@/lib/rasterizer"
+import type { AnimationFormat } from "@/lib/render-options"
+import { remapVector, type UpAxis } from "@/lib/up-axis"
+import { cross, dot, normalize, type Vec3 } from "@/lib/vector"
+import { viewCamera, type ViewDefinition } from "@/lib/views"
+
+export interface TurntableOptions {
+  frames: number
+  // Milliseconds per frame
+  delay: number
+  // 0 loops forever, otherwise the total number of times the animation plays
+  loop: number
+  // Degrees above the plane the camera circles in
+  elevation: number
+  // Spin axis in the model's own coordinates; defaults to the up axis
+  axis?: UpAxis
+  format: AnimationFormat
+}
+
+const AXIS_VECTORS: Record<UpAxis, Vec3> = {
+  "+X": [1, 0, 0],
+  "-X": [-1, 0, 0],
+  "+Y": [0, 1, 0],
+  "-Y": [0, -1, 0],
+  "+Z": [0, 0, 1],
+  "-Z": [0, 0, -1],
+}
+
+export function turntableAngle(frame: number, frames: number): number {
+  return (360 * frame) / frames
+}
+
+// One camera per frame, evenly spaced around the spin axis. The first frame looks
+// from the front when spinning about the vertical axis.
+export function turntableViews(options: TurntableOptions, upAxis: UpAxis): ViewDefinition[] {
+  const axis = options.axis ? remapVector(AXIS_VECTORS[options.axis], upAxis) : ([0, 1, 0] as Vec3)
+
+  // Basis for the circle the camera travels: start towards +Z unless that is the axis itself
+  const reference: Vec3 = Math.abs(axis[2]) < 0.9 ? [0, 0, 1] : [0, 1, 0]
+  const along = dot(reference, axis)
+  const start = normalize([reference[0] - axis[0] * along, reference[1] - axis[1] * along, reference[2] - axis[2] * along])
+  const side = cross(axis, start)
+
+  const elevation = (options.elevation * Math.PI) / 180
+  const views: ViewDefinition[] = []
+
+  for (let frame = 0; frame < options.frames; frame++) {
+    const angle = turntableAngle(frame, options.frames)
+    const theta = (angle * Math.PI) / 180
+    const horizontal = Math.cos(elevation)
+    const direction: Vec3 = [
+      horizontal * (Math.cos(theta) * start[0] + Math.sin(theta) * side[0]) + Math.sin(elevation) * axis[0],
+      horizontal * (Math.cos(theta) * start[1] + Math.sin(theta) * side[1]) + Math.sin(elevation) * axis[1],
+      horizontal * (Math.cos(theta) * start[2] + Math.sin(theta) * side[2]) + Math.sin(elevation) * axis[2],
+    ]
+
+    views.push({
+      name: `turntable_${String(frame).padStart(3, "0")}`,
+      description: `Turntable ${angle.toFixed(1)}°`,
+      direction,
+      up: axis,
+    })
+  }
+
+  return views
+}
+
+// Renders a set of views at one common scale, so the model does not appear to grow
+// and shrink between frames. Frames are rendered on demand by index.
+export function frameRenderer(
+  mesh: Mesh,
+  views: ViewDefinition[],
+  options: Partial<RasterOptions> & { width: number; height: number },
+): (index: number) => Uint8Array {
+  const bounds = computeBounds(mesh)
+  const padding = options.padding ?? DEFAULT_RASTER_OPTIONS.padding
+  const cameras = views.map((view) => viewCamera(view, bounds))
+  const framings = cameras.map((camera) => fitFraming(camera, bounds, options.width, options.height, padding))
+  const scale = Math.min(...framings.map((framing) => framing.scale))
+
+  return (index) => rasterize(mesh, cameras[index], { ...options, framing: { ...framings[index], scale } })
+}
+
+export function renderFrames(
+  mesh: Mesh,
+  views: ViewDefinition[],
+  options: Partial<RasterOptions> & { width: number; height: number },
+): Uint8Array[] {
+  const render = frameRenderer(mesh, views, options)
+  return views.map((_, index) => render(index))
+}
+
+export function encodeAnimation(
+  format: AnimationFormat,
+  width: number,
+  height: number,
+  frames: Uint8Array[],
+  options: { delay: number; loop: number },
+): { data: Buffer; mimeType: string } {
+  return format === "apng"
+    ? { data: encodeAPNG(width, height, frames, options), mimeType: "image/apng" }
+    : { data: encodeGIF(width, height, frames, options), mimeType: "image/gif" }
+}
@@ -0,0 +1,64 @@
+import type { Mesh } from "@/lib/mesh"
+import type { ModelFormat } from "@/lib/model"
+import type { Vec3 } from "@/lib/vector"
+
+export const UP_AXES = ["+X", "-X", "+Y", "-Y", "+Z", "-Z"] as const
+
+export type UpAxis = (typeof UP_AXES)[number]
+
+// Most slicers and mechanical CAD packages export STL with Z pointing up
+export const DEFAULT_STL_UP_AXIS: UpAxis = "+Z"
+
+// glTF is Y-up by specification
+export const DEFAULT_GLTF_UP_AXIS: UpAxis = "+Y"
+
+// The up axis files of a format are assumed to use when the request does not name one
+export function defaultUpAxis(format: ModelFormat): UpAxis {
+  return format === "glb" || format === "gltf" ? DEFAULT_GLTF_UP_AXIS : DEFAULT_STL_UP_AXIS
+}
+
+export function isUpAxis(value: string): value is UpAxis {
+  return (UP_AXES as readonly string[]).includes(value)
+}
+
+// Rotate a single point or direction so that the given axis points along +Y, which
+// is the renderer's up direction. Every mapping is a proper rotation, so winding
+// and handedness are preserved. For "+Z" the model's -Y side ends up facing the
+// front camera, matching the usual CAD front view.
+export function remapVector(v: Vec3, upAxis: UpAxis): Vec3 {
+  const [x, y, z] = v
+
+  switch (upAxis) {
+    case "+Y":
+      return [x, y, z]
+    case "+Z":
+      return [x, z, -y]
+    case "-Z":
+      return [x, -z, y]
+    case "-Y":
+      return [x, -y, -z]
+    case "+X":
+      return [-y, x, z]
+    case "-X":
+      return [y, -x, z]
+  }
+}
+
+// Rotate model coordinates (and normals) in place into the renderer's Y-up convention
+export function remapUpAxis(mesh: Mesh, upAxis: UpAxis): Mesh {
+  if (upAxis === "+Y") {
+    return mesh
+  }
+
+  for (const values of [mesh.positions, mesh.normals, mesh.cornerNormals]) {
+    if (!values) continue
+    for (let i = 0; i < values.length; i += 3) {
+      const [x, y, z] = remapVector([values[i], values[i + 1], values[i + 2]], upAxis)
+      values[i] = x
+      values[i + 1] = y
+      values[i + 2] = z
+    }
+  }
+
+  return mesh
+}
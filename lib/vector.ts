@@ -0,0 +1,22 @@
+export type Vec3 = [number, number, number]
+
+export function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2])
+  return length > 0 ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0]
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+export function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+}
+
+export function scale(v: Vec3, factor: number): Vec3 {
+  return [v[0] * factor, v[1] * factor, v[2] * factor]
+}
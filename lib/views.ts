@@ -0,0 +1,152 @@
+import { boundsCenter, frameBounds, orbitDirection, rollCamera, type Camera, type Projection } from "@/lib/camera"
+import type { Bounds } from "@/lib/mesh"
+import { remapVector, type UpAxis } from "@/lib/up-axis"
+import { normalize, subtract, type Vec3 } from "@/lib/vector"
+
+interface BaseViewDefinition {
+  name: string
+  description: string
+  // Which world direction should point up on screen
+  up: Vec3
+  projection?: Projection
+  // Degrees about the viewing axis, see rollCamera
+  roll?: number
+  zoom?: number
+}
+
+export type ViewDefinition = BaseViewDefinition &
+  (
+    | {
+        // Direction from the model centre towards the camera; the camera backs off far enough to frame the model
+        direction: Vec3
+      }
+    | {
+        // Explicit camera position, looking at target (the model centre by default)
+        eye: Vec3
+        target?: Vec3
+      }
+  )
+
+// A caller-supplied camera, either orbiting the model or placed explicitly.
+// Vectors are in the model's own coordinates, before the up axis is remapped.
+export interface CustomViewSpec {
+  name: string
+  description?: string
+  azimuth?: number
+  elevation?: number
+  eye?: Vec3
+  target?: Vec3
+  up?: Vec3
+  roll: number
+  zoom: number
+  projection: Projection["type"]
+  fov: number
+}
+
+// Elevation of a true isometric view: the camera looks along a cube diagonal
+const ISOMETRIC_ELEVATION = (Math.atan(1 / Math.SQRT2) * 180) / Math.PI
+
+const Y_UP: Vec3 = [0, 1, 0]
+
+// Preset view on a camera orbiting the model
+export function orbitView(
+  name: string,
+  description: string,
+  azimuth: number,
+  elevation: number,
+  projection?: Projection,
+): ViewDefinition {
+  return { name, description, direction: orbitDirection(azimuth, elevation), up: Y_UP, projection }
+}
+
+// Generate 16 different views
+export function generateViews(): ViewDefinition[] {
+  return [
+    { name: "front", description: "Front View", direction: [0, 0, 1], up: Y_UP },
+    { name: "back", description: "Back View", direction: [0, 0, -1], up: Y_UP },
+    { name: "left", description: "Left Side View", direction: [-1, 0, 0], up: Y_UP },
+    { name: "right", description: "Right Side View", direction: [1, 0, 0], up: Y_UP },
+    { name: "top", description: "Top View", direction: [0, 1, 0], up: [0, 0, -1] },
+    { name: "bottom", description: "Bottom View", direction: [0, -1, 0], up: [0, 0, 1] },
+    orbitView("iso_1", "Isometric View 1", 45, ISOMETRIC_ELEVATION),
+    orbitView("iso_2", "Isometric View 2", -45, ISOMETRIC_ELEVATION),
+    orbitView("iso_3", "Isometric View 3", 135, ISOMETRIC_ELEVATION),
+    orbitView("iso_4", "Isometric View 4", -135, ISOMETRIC_ELEVATION),
+    // Corner views look up at the model from below
+    orbitView("corner_1", "Bottom Corner 1", 45, -ISOMETRIC_ELEVATION),
+    orbitView("corner_2", "Bottom Corner 2", -45, -ISOMETRIC_ELEVATION),
+    orbitView("corner_3", "Bottom Corner 3", 135, -ISOMETRIC_ELEVATION),
+    orbitView("corner_4", "Bottom Corner 4", -135, -ISOMETRIC_ELEVATION),
+    // Angled views sit between the axis and isometric views
+    orbitView("angle_1", "Angled View 1", 60, 20),
+    orbitView("angle_2", "Angled View 2", 20, 30),
+  ]
+}
+
+export function customView(spec: CustomViewSpec, upAxis: UpAxis): ViewDefinition {
+  const base: BaseViewDefinition = {
+    name: spec.name,
+    description: spec.description ?? `Custom View (${spec.name})`,
+    up: spec.up ? remapVector(spec.up, upAxis) : Y_UP,
+    projection: spec.projection === "perspective" ? { type: "perspective", fov: spec.fov } : { type: "orthographic" },
+    roll: spec.roll,
+    zoom: spec.zoom,
+  }
+
+  if (spec.eye) {
+    return {
+      ...base,
+      eye: remapVector(spec.eye, upAxis),
+      target: spec.target ? remapVector(spec.target, upAxis) : undefined,
+    }
+  }
+
+  // Orbit angles are measured in the renderer's frame, so elevation is always towards the up axis
+  return { ...base, direction: orbitDirection(spec.azimuth ?? 0, spec.elevation ?? 0) }
+}
+
+export type ResolvedViews = { success: true; views: ViewDefinition[] } | { success: false; error: string }
+
+// Resolve a mix of preset names and custom views, keeping the requested order
+export function resolveViews(specs: (string | CustomViewSpec)[], upAxis: UpAxis): ResolvedViews {
+  const presets = generateViews()
+  const views: ViewDefinition[] = []
+  for (const spec of specs) {
+    if (typeof spec !== "string") {
+      views.push(customView(spec, upAxis))
+      continue
+    }
+
+    const preset = presets.find((view) => view.name === spec)
+    if (!preset) {
+      return { success: false, error: `Unknown view name: ${spec}` }
+    }
+    views.push(preset)
+  }
+  return { success: true, views }
+}
+
+// Build the camera that frames a model's bounding box from this view
+export function viewCamera(view: ViewDefinition, bounds: Bounds): Camera {
+  const camera: Camera =
+    "eye" in view
+      ? {
+          eye: view.eye,
+          target: view.target ?? boundsCenter(bounds),
+          up: view.up,
+          projection: view.projection ?? { type: "orthographic" },
+        }
+      : frameBounds(view.direction, view.up, bounds, view.projection)
+
+  return { ...rollCamera(camera, view.roll ?? 0), zoom: view.zoom ?? 1 }
+}
+
+// Azimuth and elevation (degrees, as in orbitDirection) of the camera that renders a view
+export function viewAngles(view: ViewDefinition, bounds: Bounds): { azimuth: number; elevation: number } {
+  const camera = viewCamera(view, bounds)
+  const [x, y, z] = normalize(subtract(camera.eye, camera.target))
+  return {
+    azimuth: (Math.atan2(x, z) * 180) / Math.PI,
+    elevation: (Math.asin(Math.max(-1, Math.min(1, y))) * 180) / Math.PI,
+  }
+}
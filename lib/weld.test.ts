@@ -0,0 +1,26 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { vertexCount } from "@/lib/mesh"
+import { weldVertices } from "@/lib/weld"
+
+// Two triangles of a unit square as soup, the shared corners written twice
+const SQUARE = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0])
+
+test("copies of a shared vertex are merged into one", () => {
+  const mesh = weldVertices({ positions: SQUARE })
+  assert.equal(vertexCount(mesh), 4)
+  assert.deepEqual([...(mesh.indices ?? [])], [0, 1, 2, 0, 2, 3])
+})
+
+test("vertices within epsilon merge and those further apart do not", () => {
+  const positions = SQUARE.slice()
+  positions[9] = 1e-4
+  assert.equal(vertexCount(weldVertices({ positions }, 1e-3)), 4)
+  assert.equal(vertexCount(weldVertices({ positions }, 1e-5)), 5)
+})
+
+test("vertices of different parts are kept apart, and triangles keep their parts", () => {
+  const mesh = weldVertices({ positions: SQUARE, parts: new Uint32Array([0, 1]) })
+  assert.equal(vertexCount(mesh), 6)
+  assert.deepEqual([...(mesh.parts ?? [])], [0, 1])
+})
@@ -0,0 +1,138 @@
+import { computeBounds, cornerVertex, triangleCount, vertexCount, type Mesh } from "@/lib/mesh"
+
+// Default weld distance as a fraction of the bounding box diagonal. STL stores
+// float32 coordinates, so copies of a shared vertex can differ in the last bits.
+export const DEFAULT_WELD_TOLERANCE = 1e-6
+
+export function defaultWeldEpsilon(mesh: Mesh): number {
+  const { min, max } = computeBounds(mesh)
+  const diagonal = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2])
+  return Number.isFinite(diagonal) ? diagonal * DEFAULT_WELD_TOLERANCE : 0
+}
+
+// The vertex's own cell first: exact copies, the common case, are found there
+const NEIGHBOUR_CELLS = new Int8Array(27 * 3)
+for (let cell = 1, dx = -1; dx <= 1; dx++) {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      if (dx === 0 && dy === 0 && dz === 0) continue
+      NEIGHBOUR_CELLS.set([dx, dy, dz], cell++ * 3)
+    }
+  }
+}
+
+function cellHash(x: number, y: number, z: number, mask: number): number {
+  return (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) & mask
+}
+
+// Merge vertices that lie within epsilon of each other into an indexed mesh.
+// Vertices are bucketed into a spatial hash of epsilon-sized cells, so each one is
+// only compared against the vertices in its own and the 26 neighbouring cells.
+// Merging is greedy: a vertex joins the first kept vertex in range. Normals and
+// colours come from that first occurrence. Vertices of different parts are never
+// merged, and triangles keep their order, face colours, corner normals and parts.
+export function weldVertices(mesh: Mesh, epsilon = defaultWeldEpsilon(mesh)): Mesh {
+  const source = mesh.positions
+  const count = vertexCount(mesh)
+  const cellSize = epsilon > 0 ? epsilon : 1e-9
+  const epsilonSquared = epsilon * epsilon
+
+  // Part of each vertex, taken from a triangle that uses it
+  let vertexParts: Uint32Array | null = null
+  if (mesh.parts) {
+    vertexParts = new Uint32Array(count)
+    for (let triangle = 0; triangle < triangleCount(mesh); triangle++) {
+      for (let corner = 0; corner < 3; corner++) {
+        vertexParts[cornerVertex(mesh, triangle, corner)] = mesh.parts[triangle]
+      }
+    }
+  }
+
+  let tableSize = 1
+  while (tableSize < count * 2) tableSize *= 2
+  const mask = tableSize - 1
+
+  // Chained hash table of kept vertices: head per bucket, next per kept vertex
+  const heads = new Int32Array(tableSize).fill(-1)
+  const next = new Int32Array(count)
+  const cells = new Int32Array(count * 3)
+  const keptSource = new Uint32Array(count)
+  const remap = new Uint32Array(count)
+  let kept = 0
+
+  for (let vertex = 0; vertex < count; vertex++) {
+    const x = source[vertex * 3],
+      y = source[vertex * 3 + 1],
+      z = source[vertex * 3 + 2]
+    const cx = Math.floor(x / cellSize),
+      cy = Math.floor(y / cellSize),
+      cz = Math.floor(z / cellSize)
+
+    let match = -1
+    search: for (let cell = 0; cell < NEIGHBOUR_CELLS.length; cell += 3) {
+      // Cell coordinates wrap to 32 bits, as stored in `cells`
+      const nx = (cx + NEIGHBOUR_CELLS[cell]) | 0,
+        ny = (cy + NEIGHBOUR_CELLS[cell + 1]) | 0,
+        nz = (cz + NEIGHBOUR_CELLS[cell + 2]) | 0
+      for (let candidate = heads[cellHash(nx, ny, nz, mask)]; candidate !== -1; candidate = next[candidate]) {
+        if (cells[candidate * 3] !== nx || cells[candidate * 3 + 1] !== ny || cells[candidate * 3 + 2] !== nz) {
+          continue // Hash collision with another cell
+        }
+        if (vertexParts && vertexParts[keptSource[candidate]] !== vertexParts[vertex]) {
+          continue
+        }
+        const other = keptSource[candidate] * 3
+        const ex = source[other] - x,
+          ey = source[other + 1] - y,
+          ez = source[other + 2] - z
+        if (ex * ex + ey * ey + ez * ez <= epsilonSquared) {
+          match = candidate
+          break search
+        }
+      }
+    }
+
+    if (match === -1) {
+      match = kept++
+      keptSource[match] = vertex
+      cells[match * 3] = cx
+      cells[match * 3 + 1] = cy
+      cells[match * 3 + 2] = cz
+      const bucket = cellHash(cx, cy, cz, mask)
+      next[match] = heads[bucket]
+      heads[bucket] = match
+    }
+
+    remap[vertex] = match
+  }
+
+  const positions = new Float32Array(kept * 3)
+  const normals = mesh.normals ? new Float32Array(kept * 3) : undefined
+  const colors = mesh.colors ? new Uint8Array(kept * 3) : undefined
+  for (let vertex = 0; vertex < kept; vertex++) {
+    const from = keptSource[vertex] * 3
+    positions.set(source.subarray(from, from + 3), vertex * 3)
+    normals?.set(mesh.normals!.subarray(from, from + 3), vertex * 3)
+    colors?.set(mesh.colors!.subarray(from, from + 3), vertex * 3)
+  }
+
+  const triangles = triangleCount(mesh)
+  const indices = new Uint32Array(triangles * 3)
+  for (let triangle = 0; triangle < triangles; triangle++) {
+    for (let corner = 0; corner < 3; corner++) {
+      indices[triangle * 3 + corner] = remap[cornerVertex(mesh, triangle, corner)]
+    }
+  }
+
+  console.log(`Welded ${count} vertices into ${kept} (epsilon ${epsilon})`)
+  return {
+    positions,
+    normals,
+    cornerNormals: mesh.cornerNormals,
+    colors,
+    indices,
+    faceColors: mesh.faceColors,
+    coloredFaces: mesh.coloredFaces,
+    parts: mesh.parts,
+  }
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { scanXML } from "@/lib/xml"
+
+function events(text: string): string[] {
+  const seen: string[] = []
+  scanXML(text, {
+    open: (name, attributes) => seen.push(`open ${name} ${JSON.stringify(attributes)}`),
+    close: (name) => seen.push(`close ${name}`),
+  })
+  return seen
+}
+
+test("elements open and close with their attributes, skipping comments and declarations", () => {
+  const text = `<?xml version="1.0"?><!-- <b/> --><m:a x="1 > 0" y='&lt;&#x41;'><b/></m:a>`
+  assert.deepEqual(events(text), [
+    'open a {"x":"1 > 0","y":"<A"}',
+    "open b {}",
+    "close b",
+    "close a",
+  ])
+})
+
+test("numeric entities that name no character are left as written", () => {
+  assert.deepEqual(events(`<a v="&#x110000;&#0;"/>`), ['open a {"v":"&#x110000;&#0;"}', "close a"])
+})
+
+test("a document that never closes its tags fails in linear time", () => {
+  // Rescanning to the end at every "<" took seconds at this size
+  const text = '<a x="1" '.repeat(100_000)
+  const started = performance.now()
+  assert.throws(() => events(text), /ends inside the tag/)
+  assert.ok(performance.now() - started < 500)
+})
+
+test("an unterminated comment is an error", () => {
+  assert.throws(() => events(`<a/><!-- ${"<b/>".repeat(10)}`), /ends inside the markup/)
+})
@@ -0,0 +1,109 @@
+// Element name at the start of a tag, after an optional "/" for closing tags
+const NAME_PATTERN = /(\/?)([\w:.-]+)/y
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }
+
+export interface XMLHandlers {
+  // Element names are local: any namespace prefix is dropped. Attribute names are kept as written.
+  open?: (name: string, attributes: Record<string, string>) => void
+  // Also called right after `open` for self-closing elements
+  close?: (name: string) => void
+}
+
+const MAX_CODE_POINT = 0x10ffff
+
+// Entities that name no character, such as "&#x110000;", are left as written
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = /^#x/i.test(code) ? Number.parseInt(code.slice(2), 16) : Number.parseInt(code.slice(1), 10)
+      return point > 0 && point <= MAX_CODE_POINT ? String.fromCodePoint(point) : entity
+    }
+    return ENTITIES[code] ?? entity
+  })
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1)
+}
+
+// Index of the ">" that ends the tag starting at `start`. Attribute values may contain
+// ">" as long as they are quoted.
+function tagEnd(text: string, start: number): number {
+  let quote: string | null = null
+  for (let index = start; index < text.length; index++) {
+    const char = text[index]
+    if (quote !== null) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === ">") {
+      return index
+    }
+  }
+  return -1
+}
+
+// Walk the elements of a machine-written XML document, calling back as each one
+// opens and closes. Text, comments, processing instructions and the DOCTYPE are
+// skipped, and well-formedness is not checked: this is enough for data formats
+// whose content lives in attributes, without building a tree of every element.
+// Each character is looked at once, and a document that ends inside a tag or
+// comment is an error rather than a reason to search the rest again.
+export function scanXML(text: string, handlers: XMLHandlers) {
+  // Fresh copies keep their own lastIndex, so handlers may scan other documents
+  const namePattern = new RegExp(NAME_PATTERN)
+  const attributePattern = new RegExp(ATTRIBUTE_PATTERN)
+
+  for (let start = text.indexOf("<"); start !== -1; ) {
+    // Comments, CDATA sections, processing instructions and the DOCTYPE
+    let markupEnd: string | null = null
+    if (text.startsWith("<!--", start)) {
+      markupEnd = "-->"
+    } else if (text.startsWith("<![CDATA[", start)) {
+      markupEnd = "]]>"
+    } else if (text[start + 1] === "?" || text[start + 1] === "!") {
+      markupEnd = ">"
+    }
+    if (markupEnd !== null) {
+      const end = text.indexOf(markupEnd, start + 2)
+      if (end === -1) throw new Error(`XML ends inside the markup at offset ${start}`)
+      start = text.indexOf("<", end + markupEnd.length)
+      continue
+    }
+
+    // A "<" that starts no element name is text
+    namePattern.lastIndex = start + 1
+    const match = namePattern.exec(text)
+    if (!match) {
+      start = text.indexOf("<", start + 1)
+      continue
+    }
+
+    const end = tagEnd(text, namePattern.lastIndex)
+    if (end === -1) throw new Error(`XML ends inside the tag at offset ${start}`)
+    const [, closing, name] = match
+    const selfClosing = text[end - 1] === "/"
+    const attributeText = text.slice(namePattern.lastIndex, selfClosing ? end - 1 : end)
+    start = text.indexOf("<", end + 1)
+
+    if (closing) {
+      handlers.close?.(localName(name))
+      continue
+    }
+
+    const attributes: Record<string, string> = {}
+    attributePattern.lastIndex = 0
+    let attribute: RegExpExecArray | null
+    while ((attribute = attributePattern.exec(attributeText)) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3])
+    }
+
+    handlers.open?.(localName(name), attributes)
+    if (selfClosing) {
+      handlers.close?.(localName(name))
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { attachmentDisposition, createZipStream, extractZipFile, readZipDirectory } from "@/lib/zip"
+
+test("download names outside ASCII get a safe fallback and an encoded filename*", () => {
+  const disposition = attachmentDisposition("模型.zip")
+  assert.equal(disposition, "attachment; filename=\"_.zip\"; filename*=UTF-8''%E6%A8%A1%E5%9E%8B.zip")
+  // The Headers constructor refuses anything that is not a ByteString
+  assert.doesNotThrow(() => new Headers({ "Content-Disposition": disposition }))
+})
+
+test("quotes and separators cannot break out of the filename parameter", () => {
+  assert.equal(
+    attachmentDisposition('a"b;c (1).zip'),
+    "attachment; filename=\"a_b_c_1_.zip\"; filename*=UTF-8''a%22b%3Bc%20%281%29.zip",
+  )
+})
+
+async function zip(entries: Parameters<typeof createZipStream>[0]): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(createZipStream(entries)).arrayBuffer())
+}
+
+test("entries written to an archive read back as written", async () => {
+  const text = "solid x\n".repeat(1000)
+  const binary = new Uint8Array(256).map((_, index) => index)
+  const archive = await zip([
+    { name: "模型/a.stl", data: text, compress: true },
+    { name: "b.png", data: binary },
+  ])
+
+  const files = readZipDirectory(archive)
+  assert.deepEqual(
+    files.map((file) => [file.name, file.method, file.size]),
+    [
+      ["模型/a.stl", 8, text.length],
+      ["b.png", 0, 256],
+    ],
+  )
+  assert.equal(Buffer.from(extractZipFile(archive, files[0])).toString("utf8"), text)
+  assert.deepEqual(new Uint8Array(extractZipFile(archive, files[1])), binary)
+})
+
+test("a damaged entry fails its CRC and an entry past the size limit is refused", async () => {
+  const archive = await zip([{ name: "a.txt", data: "x".repeat(1000), compress: true }])
+  const [file] = readZipDirectory(archive)
+  assert.throws(() => extractZipFile(archive, file, 100), /larger than 100 bytes/)
+
+  const stored = await zip([{ name: "a.txt", data: "hello" }])
+  const [entry] = readZipDirectory(stored)
+  stored[entry.offset + 30 + "a.txt".length] ^= 0xff
+  assert.throws(() => extractZipFile(stored, entry), /failed its CRC check/)
+})
+
+test("a file without a central directory is not an archive", () => {
+  assert.throws(() => readZipDirectory(new Uint8Array(100)), /Not a ZIP archive/)
+})
@@ -0,0 +1,242 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib"
+import { crc32 } from "@/lib/png"
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+  // Deflate the entry; already-compressed data such as PNG is better stored as is
+  compress?: boolean
+}
+
+// An entry listed in an archive's central directory
+export interface ZipFile {
+  name: string
+  // 0 stored, 8 deflated
+  method: number
+  compressedSize: number
+  // Uncompressed size as declared by the archive
+  size: number
+  checksum: number
+  // Where the entry's local file header starts
+  offset: number
+}
+
+// Limits on what a ZIP may expand to, whether it is an uploaded archive or a model
+// package, so a small file cannot exhaust memory
+export const MAX_EXPANDED_SIZE = 512 * 1024 * 1024
+export const MAX_ARCHIVE_ENTRIES = 4096
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const UTF8_NAMES = 0x0800
+
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// Stream a ZIP archive. Entries are pulled one at a time as the consumer reads,
+// so only the entry being written and the central directory are held in memory.
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator =
+    Symbol.asyncIterator in entries
+      ? (entries as AsyncIterable<ZipEntry>)[Symbol.asyncIterator]()
+      : (entries as Iterable<ZipEntry>)[Symbol.iterator]()
+
+  const centralDirectory: Buffer[] = []
+  const { time, day } = dosDateTime(new Date())
+  let offset = 0
+  let count = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next()
+
+        if (next.done) {
+          const directory = Buffer.concat(centralDirectory)
+          const end = Buffer.alloc(22)
+          end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+          end.writeUInt16LE(count, 8)
+          end.writeUInt16LE(count, 10)
+          end.writeUInt32LE(directory.length, 12)
+          end.writeUInt32LE(offset, 16)
+          controller.enqueue(directory)
+          controller.enqueue(end)
+          controller.close()
+          return
+        }
+
+        const entry = next.value
+        const name = Buffer.from(entry.name, "utf8")
+        const raw = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data
+        const deflated = entry.compress ? deflateRawSync(raw) : null
+        const useDeflate = deflated !== null && deflated.length < raw.length
+        const stored = useDeflate ? deflated : raw
+        const checksum = crc32(raw)
+
+        if (count === 0xffff || offset + 30 + name.length + stored.length > 0xffffffff) {
+          throw new Error("ZIP archive too large")
+        }
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(LOCAL_FILE_HEADER, 0)
+        local.writeUInt16LE(20, 4) // Version needed to extract
+        local.writeUInt16LE(UTF8_NAMES, 6)
+        local.writeUInt16LE(useDeflate ? 8 : 0, 8)
+        local.writeUInt16LE(time, 10)
+        local.writeUInt16LE(day, 12)
+        local.writeUInt32LE(checksum, 14)
+        local.writeUInt32LE(stored.length, 18)
+        local.writeUInt32LE(raw.length, 22)
+        local.writeUInt16LE(name.length, 26)
+
+        const central = Buffer.alloc(46)
+        central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0)
+        central.writeUInt16LE(20, 4) // Version made by
+        central.writeUInt16LE(20, 6) // Version needed to extract
+        central.writeUInt16LE(UTF8_NAMES, 8)
+        central.writeUInt16LE(useDeflate ? 8 : 0, 10)
+        central.writeUInt16LE(time, 12)
+        central.writeUInt16LE(day, 14)
+        central.writeUInt32LE(checksum, 16)
+        central.writeUInt32LE(stored.length, 20)
+        central.writeUInt32LE(raw.length, 24)
+        central.writeUInt16LE(name.length, 28)
+        central.writeUInt32LE(offset, 42)
+        centralDirectory.push(central, name)
+
+        controller.enqueue(local)
+        controller.enqueue(name)
+        controller.enqueue(stored)
+        offset += local.length + name.length + stored.length
+        count++
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+// Make names safe to use as archive paths, keeping them unique. Without an extension
+// they name folders.
+export function uniqueFileNames(names: string[], extension?: string): string[] {
+  const seen = new Map<string, number>()
+  return names.map((name) => {
+    const base = safeFileName(name) || "view"
+    const uses = (seen.get(base) ?? 0) + 1
+    seen.set(base, uses)
+    const suffix = extension ? `.${extension}` : ""
+    return uses === 1 ? `${base}${suffix}` : `${base}_${uses}${suffix}`
+  })
+}
+
+// Content-Disposition for a download. The plain filename is an ASCII stand-in made
+// like an archive entry name; filename* carries the real name (RFC 5987) for clients
+// that read it.
+export function attachmentDisposition(filename: string): string {
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+  return `attachment; filename="${safeFileName(filename) || "download"}"; filename*=UTF-8''${encoded}`
+}
+
+// Keep a name to characters that are safe in any file system, archive or header
+function safeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^\.+/, "")
+}
+
+// List the entries of a ZIP archive from its central directory. ZIP64 archives and
+// encrypted entries are not supported.
+export function readZipDirectory(data: Uint8Array): ZipFile[] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+
+  // The end record is the last thing in the file, followed by a comment of up to 64 KiB
+  let end = -1
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a ZIP archive")
+  }
+
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported")
+  }
+
+  const files: ZipFile[] = []
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory")
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const nameBytes = buffer.subarray(offset + 46, offset + 46 + nameLength)
+
+    if (flags & 0x0001) {
+      throw new Error("Encrypted ZIP entries are not supported")
+    }
+
+    files.push({
+      name: nameBytes.toString(flags & UTF8_NAMES ? "utf8" : "latin1"),
+      method: buffer.readUInt16LE(offset + 10),
+      checksum: buffer.readUInt32LE(offset + 16),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      offset: buffer.readUInt32LE(offset + 42),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+// Decompress one entry and check its CRC. Inflation stops with an error once the
+// output would pass maxSize bytes, whatever size the archive declares.
+export function extractZipFile(data: Uint8Array, file: ZipFile, maxSize = file.size): Uint8Array {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  if (file.offset + 30 > buffer.length || buffer.readUInt32LE(file.offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${file.name}`)
+  }
+
+  // The local header repeats the name and may carry a different extra field
+  const start = file.offset + 30 + buffer.readUInt16LE(file.offset + 26) + buffer.readUInt16LE(file.offset + 28)
+  const stored = buffer.subarray(start, start + file.compressedSize)
+  if (stored.length < file.compressedSize) {
+    throw new Error(`Truncated ZIP entry: ${file.name}`)
+  }
+
+  let contents: Buffer
+  if (file.method === 0) {
+    contents = stored
+  } else if (file.method === 8) {
+    contents = inflateRawSync(stored, { maxOutputLength: Math.max(1, maxSize) })
+  } else {
+    throw new Error(`Unsupported ZIP compression method ${file.method}: ${file.name}`)
+  }
+
+  if (contents.length > maxSize) {
+    throw new Error(`ZIP entry larger than ${maxSize} bytes: ${file.name}`)
+  }
+  if (crc32(contents) !== file.checksum) {
+    throw new Error(`ZIP entry failed its CRC check: ${file.name}`)
+  }
+
+  return contents
+}
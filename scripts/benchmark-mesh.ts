@@ -0,0 +1,137 @@
+// Compares the typed-array Mesh against the previous number[][] triangle list on a
+// large synthetic binary STL: parse time, retained memory, and the bounds and
+// up-axis passes that every render runs over the whole model.
+//
+//   pnpm benchmark:mesh [facets]
+
+import { computeBounds, type Mesh } from "@/lib/mesh"
+import { parseSTL } from "@/lib/stl"
+import { remapUpAxis, remapVector } from "@/lib/up-axis"
+import type { Vec3 } from "@/lib/vector"
+
+const facets = Number(process.argv[2] ?? 2_000_000)
+
+// A grid of small tilted quads, so the coordinates are not all identical
+function syntheticSTL(count: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(84 + count * 50)
+  const view = new DataView(buffer)
+  view.setUint32(80, count, true)
+
+  const side = Math.ceil(Math.sqrt(count))
+  for (let i = 0; i < count; i++) {
+    const x = i % side
+    const y = Math.floor(i / side)
+    const vertices = [x, y, Math.sin(x * 0.1), x + 1, y, Math.sin((x + 1) * 0.1), x, y + 1, Math.cos(y * 0.1)]
+    const offset = 84 + i * 50 + 12
+    vertices.forEach((value, j) => view.setFloat32(offset + j * 4, value, true))
+  }
+
+  return buffer
+}
+
+// The parser as it was before the Mesh type, kept here as the baseline
+function parseLegacy(buffer: ArrayBuffer): number[][] {
+  const view = new DataView(buffer)
+  const count = view.getUint32(80, true)
+  const triangles: number[][] = []
+  let offset = 84
+
+  for (let i = 0; i < count && offset + 50 <= buffer.byteLength; i++) {
+    offset += 12
+    const triangle = []
+    for (let j = 0; j < 9; j++) {
+      triangle.push(view.getFloat32(offset, true))
+      offset += 4
+    }
+    offset += 2
+    triangles.push(triangle)
+  }
+
+  return triangles
+}
+
+function legacyBounds(triangles: number[][]): { min: Vec3; max: Vec3 } {
+  const min: Vec3 = [Infinity, Infinity, Infinity]
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity]
+  for (const triangle of triangles) {
+    for (let i = 0; i < 9; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], triangle[i + axis])
+        max[axis] = Math.max(max[axis], triangle[i + axis])
+      }
+    }
+  }
+  return { min, max }
+}
+
+function legacyRemap(triangles: number[][]) {
+  for (const triangle of triangles) {
+    for (let i = 0; i < 9; i += 3) {
+      const [x, y, z] = remapVector([triangle[i], triangle[i + 1], triangle[i + 2]], "+Z")
+      triangle[i] = x
+      triangle[i + 1] = y
+      triangle[i + 2] = z
+    }
+  }
+}
+
+function memory(): number {
+  globalThis.gc?.()
+  const usage = process.memoryUsage()
+  return usage.heapUsed + usage.arrayBuffers
+}
+
+function time<T>(run: () => T): [T, number] {
+  const start = performance.now()
+  const result = run()
+  return [result, performance.now() - start]
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+if (!globalThis.gc) {
+  console.warn("Run with --expose-gc for stable memory figures")
+}
+
+const buffer = syntheticSTL(facets)
+console.log(`${facets} facets, ${megabytes(buffer.byteLength)} binary STL\n`)
+
+// The parsers log progress; keep the table readable
+const log = console.log
+console.log = () => {}
+
+// Each case runs in its own function so the previous model is garbage by the next baseline
+function benchmarkLegacy(): Record<string, string> {
+  const before = memory()
+  const [triangles, parse] = time(() => parseLegacy(buffer))
+  const retained = memory() - before
+  const [, bounds] = time(() => legacyBounds(triangles))
+  const [, remap] = time(() => legacyRemap(triangles))
+  return {
+    parse: `${parse.toFixed(0)} ms`,
+    retained: megabytes(retained),
+    bounds: `${bounds.toFixed(0)} ms`,
+    upAxis: `${remap.toFixed(0)} ms`,
+  }
+}
+
+function benchmarkMesh(): Record<string, string> {
+  const before = memory()
+  const [mesh, parse] = time((): Mesh => parseSTL(buffer).mesh)
+  const retained = memory() - before
+  const [, bounds] = time(() => computeBounds(mesh))
+  const [, remap] = time(() => remapUpAxis(mesh, "+Z"))
+  return {
+    parse: `${parse.toFixed(0)} ms`,
+    retained: megabytes(retained),
+    bounds: `${bounds.toFixed(0)} ms`,
+    upAxis: `${remap.toFixed(0)} ms`,
+  }
+}
+
+const results = { "number[][]": benchmarkLegacy(), Mesh: benchmarkMesh() }
+
+console.log = log
+console.table(results)